@@ -0,0 +1,95 @@
+import type { AudioSettings } from '../audio';
+
+/** Data for each type of analytics event. */
+export interface AnalyticsEventMap
+{
+    /** A scene has started, after loading. */
+    sceneEntered: { sceneId: string, args: unknown };
+    /** The learner left a scene. timeSpent is in milliseconds, from when it was entered. */
+    sceneExited: { sceneId: string, timeSpent: number };
+    /** How long a scene took to load, in milliseconds, from being started to being ready. */
+    sceneLoaded: { sceneId: string, duration: number };
+    /** A dialogue line played through to the end. */
+    dialoguePlayed: { sceneId: string, id: string };
+    /** A dialogue line was skipped part way through. */
+    dialogueSkipped: { sceneId: string, id: string };
+    /** Volume or mute settings changed. */
+    audioSettingsChanged: AudioSettings;
+    /** Game specific events, from BaseScene.trackEvent(). */
+    custom: { sceneId: string|null, name: string, data?: unknown };
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventMap;
+
+export interface AnalyticsEvent<K extends AnalyticsEventType = AnalyticsEventType>
+{
+    type: K;
+    /** When the event happened, in milliseconds since the epoch. */
+    time: number;
+    data: AnalyticsEventMap[K];
+}
+
+/** Somewhere to send analytics events. */
+export interface AnalyticsSink
+{
+    send(event: AnalyticsEvent): void;
+    /**
+     * Sends anything the sink has queued up, if it batches events.
+     * @param unloading If the page may be going away, so sending needs to outlive it.
+     */
+    flush?(unloading?: boolean): Promise<void>;
+}
+
+/**
+ * Passes analytics events from the game on to any number of sinks.
+ */
+export class Analytics
+{
+    private sinks: AnalyticsSink[];
+
+    constructor(sinks: AnalyticsSink[] = [])
+    {
+        this.sinks = sinks.slice();
+    }
+
+    public addSink(sink: AnalyticsSink): void
+    {
+        this.sinks.push(sink);
+    }
+
+    public removeSink(sink: AnalyticsSink): void
+    {
+        const index = this.sinks.indexOf(sink);
+        if (index >= 0)
+        {
+            this.sinks.splice(index, 1);
+        }
+    }
+
+    public track<K extends AnalyticsEventType>(type: K, data: AnalyticsEventMap[K]): void
+    {
+        if (!this.sinks.length) return;
+        const event: AnalyticsEvent<K> = { type, time: Date.now(), data };
+        for (const sink of this.sinks)
+        {
+            try
+            {
+                sink.send(event);
+            }
+            catch (e)
+            {
+                // analytics should never break the game
+                console.error('Analytics sink failed', e);
+            }
+        }
+    }
+
+    /**
+     * Flushes all sinks that batch events.
+     * @param unloading If the page may be going away, like when it is hidden.
+     */
+    public async flush(unloading = false): Promise<void>
+    {
+        await Promise.all(this.sinks.map(sink => sink.flush?.(unloading)));
+    }
+}
@@ -0,0 +1,196 @@
+import { KeyValueStorage, MemoryStorage } from '../storage';
+import type { AnalyticsEvent, AnalyticsEventType, AnalyticsSink } from './Analytics';
+
+/** Logs events to the console, for development. */
+export class ConsoleSink implements AnalyticsSink
+{
+    public send(event: AnalyticsEvent): void
+    {
+        console.log(`[analytics] ${event.type}`, event.data);
+    }
+}
+
+/** Keeps events in memory, for tests. */
+export class MemorySink implements AnalyticsSink
+{
+    public events: AnalyticsEvent[];
+
+    constructor()
+    {
+        this.events = [];
+    }
+
+    public send(event: AnalyticsEvent): void
+    {
+        this.events.push(event);
+    }
+
+    /** Events of a particular type, in the order they happened. */
+    public ofType<K extends AnalyticsEventType>(type: K): AnalyticsEvent<K>[]
+    {
+        return this.events.filter(e => e.type === type) as AnalyticsEvent<K>[];
+    }
+
+    public clear(): void
+    {
+        this.events = [];
+    }
+}
+
+export interface HttpSinkOptions
+{
+    /** Endpoint to POST batches of events to, as JSON: `{ "events": [...] }`. */
+    url: string;
+    /** Max events per request. Defaults to 20. */
+    batchSize?: number;
+    /** Milliseconds between sending partial batches. Defaults to 10 seconds. */
+    flushInterval?: number;
+    /** Max events to hold on to while offline, dropping the oldest first. Defaults to 1000. */
+    maxQueue?: number;
+    /** Where to keep unsent events, so they survive a reload while offline. Defaults to memory only. */
+    storage?: KeyValueStorage;
+    storageKey?: string;
+    /** Fetch implementation to use, for tests. Defaults to window.fetch. */
+    fetch?: typeof fetch;
+    /** Extra headers for requests, like authorization. */
+    headers?: {[name: string]: string};
+}
+
+/**
+ * Sends events to a server in batches. Events that can't be sent (while offline, or if the server errors)
+ * are queued up and retried with the next flush.
+ */
+export class HttpSink implements AnalyticsSink
+{
+    private options: Required<Omit<HttpSinkOptions, 'headers'>> & { headers: {[name: string]: string} };
+    private queue: AnalyticsEvent[];
+    private flushing: Promise<void>|null;
+    /** Set while flushing because the page may be going away, for requests to be kept alive through it. */
+    private unloading: boolean;
+    private timer: number;
+    private onOnline: () => void;
+
+    constructor(options: HttpSinkOptions)
+    {
+        this.options = Object.assign({
+            batchSize: 20,
+            flushInterval: 10000,
+            maxQueue: 1000,
+            storage: new MemoryStorage(),
+            storageKey: 'analyticsQueue',
+            fetch: (input: RequestInfo, init?: RequestInit) => window.fetch(input, init),
+            headers: {},
+        }, options);
+        this.queue = this.loadQueue();
+        this.flushing = null;
+        this.unloading = false;
+        this.timer = setInterval(() => this.flush(), this.options.flushInterval) as any;
+        this.onOnline = () => this.flush();
+        window.addEventListener('online', this.onOnline);
+    }
+
+    /** Number of events waiting to be sent. */
+    public get pending(): number
+    {
+        return this.queue.length;
+    }
+
+    public send(event: AnalyticsEvent): void
+    {
+        this.queue.push(event);
+        if (this.queue.length > this.options.maxQueue)
+        {
+            this.queue.splice(0, this.queue.length - this.options.maxQueue);
+        }
+        this.saveQueue();
+        if (this.queue.length >= this.options.batchSize)
+        {
+            this.flush();
+        }
+    }
+
+    /**
+     * Sends everything queued up, a batch at a time. Stops at the first batch that fails, leaving it and the rest
+     * queued for the next flush.
+     * @param unloading If the page may be going away - requests are sent with `keepalive` so that the browser
+     * doesn't cancel them.
+     */
+    public flush(unloading = false): Promise<void>
+    {
+        // a flush already in progress sends the rest of its batches this way too
+        this.unloading = this.unloading || unloading;
+        if (!this.flushing)
+        {
+            this.flushing = this.sendBatches().then(() =>
+            {
+                this.flushing = null;
+                this.unloading = false;
+            });
+        }
+        return this.flushing;
+    }
+
+    /** Stops sending on a timer. Anything queued stays in storage for next time. */
+    public destroy(): void
+    {
+        clearInterval(this.timer);
+        window.removeEventListener('online', this.onOnline);
+    }
+
+    private async sendBatches(): Promise<void>
+    {
+        while (this.queue.length)
+        {
+            if (typeof navigator != 'undefined' && navigator.onLine === false) return;
+            const batch = this.queue.slice(0, this.options.batchSize);
+            try
+            {
+                const response = await this.options.fetch(this.options.url, {
+                    method: 'POST',
+                    headers: Object.assign({ 'Content-Type': 'application/json' }, this.options.headers),
+                    body: JSON.stringify({ events: batch }),
+                    keepalive: this.unloading,
+                });
+                if (!response.ok) return;
+            }
+            catch (e)
+            {
+                return;
+            }
+            // the queue may have been trimmed while we were waiting, so remove exactly what we sent
+            this.queue = this.queue.filter(event => !batch.includes(event));
+            this.saveQueue();
+        }
+    }
+
+    private loadQueue(): AnalyticsEvent[]
+    {
+        try
+        {
+            return JSON.parse(this.options.storage.getItem(this.options.storageKey) || '[]');
+        }
+        catch (e)
+        {
+            return [];
+        }
+    }
+
+    private saveQueue(): void
+    {
+        try
+        {
+            if (this.queue.length)
+            {
+                this.options.storage.setItem(this.options.storageKey, JSON.stringify(this.queue));
+            }
+            else
+            {
+                this.options.storage.removeItem(this.options.storageKey);
+            }
+        }
+        catch (e)
+        {
+            // out of space - the events are still in memory
+        }
+    }
+}
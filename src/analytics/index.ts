@@ -0,0 +1,2 @@
+export * from './Analytics';
+export * from './AnalyticsSinks';
\ No newline at end of file
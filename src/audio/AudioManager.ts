@@ -1,28 +1,116 @@
 import Phaser from 'phaser';
+import { KeyValueStorage } from '../storage';
+import { createSpriteSounds, playSound } from './AudioSprite';
 
 export type Sound = Phaser.Sound.WebAudioSound;
 
-export class AudioManager
+/** Channels with their own volume level. Master applies on top of all of the others. */
+export type AudioChannel = 'master'|'music'|'sfx'|'vo';
+
+/** User facing audio settings, which are persisted between sessions. */
+export interface AudioSettings
+{
+    masterVolume: number;
+    musicVolume: number;
+    sfxVolume: number;
+    voVolume: number;
+    allMuted: boolean;
+    musicMuted: boolean;
+    sfxMuted: boolean;
+    voMuted: boolean;
+}
+
+/** How music (and optionally sfx) get quieter while voice-over is playing. */
+export interface DuckingConfig
+{
+    enabled: boolean;
+    /** Volume multiplier while ducked. */
+    level: number;
+    /** Milliseconds to duck down when VO starts. */
+    attack: number;
+    /** Milliseconds to come back up after VO ends. */
+    release: number;
+    /** If sfx should be ducked as well as music. */
+    duckSfx: boolean;
+}
+
+interface Fade
+{
+    clip: Sound;
+    channel: 'music'|'sfx'|'vo';
+    from: number;
+    to: number;
+    duration: number;
+    elapsed: number;
+    /** If the clip should be stopped once faded. */
+    stopWhenDone: boolean;
+    resolve: () => void;
+}
+
+/** Event emitted with the current AudioSettings whenever any of them change. */
+export const AUDIO_SETTINGS_CHANGED = 'settingschanged';
+
+const DEFAULT_STORAGE_KEY = 'audioSettings';
+
+export class AudioManager extends Phaser.Events.EventEmitter
 {
     public globalSfx: Map<string, Sound>;
+    /** Keys of audio sprites whose markers are added to globalSfx. */
+    private globalSfxSprites: string[];
     private currentVOClip: Sound|null;
     private currentVOClips: Sound[]|null;
+    /** Settles the promise for the current VO clip, whether it completed or was stopped. */
+    private finishVO: (() => void)|null;
     private _sfxMuted: boolean;
     private _musicMuted: boolean;
     private _voMuted: boolean;
     private _allMuted: boolean;
     private musicClips: Sound[];
     private sfxClips: Set<Sound>;
+    private volumes: {[C in AudioChannel]: number};
+    /** The volume each clip had before we applied channel volumes to it. */
+    private baseVolumes: WeakMap<Sound, number>;
+    private storage: KeyValueStorage|null;
+    private storageKey: string;
+    /** Volume multipliers from fades in progress (or completed), by clip. */
+    private fadeLevels: WeakMap<Sound, number>;
+    private fades: Map<Sound, Fade>;
+    /** Music clips that are fading out after being stopped. */
+    private fadingMusic: Set<Sound>;
+    private ducking: DuckingConfig;
+    /** Current ducking multiplier - 1 is not ducked at all. */
+    private duckLevel: number;
+    /** If VO is playing, which means that music should be ducked. */
+    private voActive: boolean;
+    /** Clips paused by pauseAll(), to be resumed by resumeAll(). */
+    private pausedClips: Sound[];
+    private paused: boolean;
 
     public get sfxMuted(): boolean { return this._sfxMuted; }
     public get musicMuted(): boolean { return this._musicMuted; }
     public get voMuted(): boolean { return this._voMuted; }
     public get allMuted(): boolean { return this._allMuted; }
 
-    constructor ()
+    /** Clips currently in use on each channel (including paused ones), for debugging. */
+    public get activeClips(): {music: Sound[], sfx: Sound[], vo: Sound[]}
     {
+        return {
+            music: [...this.musicClips, ...this.fadingMusic],
+            sfx: Array.from(this.sfxClips),
+            vo: this.currentVOClip ? [this.currentVOClip] : [],
+        };
+    }
+
+    /**
+     * @param storage Where to persist audio settings. If null, settings are not persisted.
+     * @param storageKey Key to store settings under, for games that share a domain.
+     */
+    constructor (storage: KeyValueStorage|null = null, storageKey = DEFAULT_STORAGE_KEY)
+    {
+        super();
         this.currentVOClip = null;
         this.currentVOClips = null;
+        this.finishVO = null;
         this._sfxMuted = false;
         this._musicMuted = false;
         this._voMuted = false;
@@ -31,6 +119,256 @@ export class AudioManager
         this.musicClips = [];
         this.sfxClips = new Set();
         this.globalSfx = new Map();
+        this.globalSfxSprites = [];
+        this.volumes = { master: 1, music: 1, sfx: 1, vo: 1 };
+        this.baseVolumes = new WeakMap();
+        this.storage = storage;
+        this.storageKey = storageKey;
+        this.fadeLevels = new WeakMap();
+        this.fades = new Map();
+        this.fadingMusic = new Set();
+        this.ducking = { enabled: true, level: 0.4, attack: 250, release: 600, duckSfx: false };
+        this.duckLevel = 1;
+        this.voActive = false;
+        this.pausedClips = [];
+        this.paused = false;
+        this.loadSettings();
+    }
+
+    /** A copy of the current settings. */
+    public get settings(): AudioSettings
+    {
+        return {
+            masterVolume: this.volumes.master,
+            musicVolume: this.volumes.music,
+            sfxVolume: this.volumes.sfx,
+            voVolume: this.volumes.vo,
+            allMuted: this._allMuted,
+            musicMuted: this._musicMuted,
+            sfxMuted: this._sfxMuted,
+            voMuted: this._voMuted,
+        };
+    }
+
+    /** Applies a set of settings, like from a settings panel. Any settings not included are left alone. */
+    public applySettings(settings: Partial<AudioSettings>): void
+    {
+        const clamp = (value: number|undefined, current: number) => typeof value == 'number' ? Math.max(0, Math.min(1, value)) : current;
+        this.volumes.master = clamp(settings.masterVolume, this.volumes.master);
+        this.volumes.music = clamp(settings.musicVolume, this.volumes.music);
+        this.volumes.sfx = clamp(settings.sfxVolume, this.volumes.sfx);
+        this.volumes.vo = clamp(settings.voVolume, this.volumes.vo);
+        this._allMuted = settings.allMuted ?? this._allMuted;
+        this._musicMuted = settings.musicMuted ?? this._musicMuted;
+        this._sfxMuted = settings.sfxMuted ?? this._sfxMuted;
+        this._voMuted = settings.voMuted ?? this._voMuted;
+        this.updateAllClips();
+        this.settingsChanged();
+    }
+
+    public getVolume(channel: AudioChannel): number
+    {
+        return this.volumes[channel];
+    }
+
+    /**
+     * Sets the volume (0-1) of a channel, which is applied on top of each clip's own volume.
+     */
+    public setVolume(channel: AudioChannel, volume: number): void
+    {
+        this.volumes[channel] = Math.max(0, Math.min(1, volume));
+        this.updateAllClips();
+        this.settingsChanged();
+    }
+
+    private loadSettings(): void
+    {
+        if (!this.storage) return;
+        try
+        {
+            const saved = this.storage.getItem(this.storageKey);
+            if (saved)
+            {
+                const settings = JSON.parse(saved) as Partial<AudioSettings>;
+                // apply without saving or emitting, as nothing has changed from the user's point of view
+                this.volumes.master = settings.masterVolume ?? 1;
+                this.volumes.music = settings.musicVolume ?? 1;
+                this.volumes.sfx = settings.sfxVolume ?? 1;
+                this.volumes.vo = settings.voVolume ?? 1;
+                this._allMuted = !!settings.allMuted;
+                this._musicMuted = !!settings.musicMuted;
+                this._sfxMuted = !!settings.sfxMuted;
+                this._voMuted = !!settings.voMuted;
+            }
+        }
+        catch (e)
+        {
+            console.warn('Unable to load audio settings', e);
+        }
+    }
+
+    /** Persists settings and lets listeners know about the change. */
+    private settingsChanged(): void
+    {
+        const settings = this.settings;
+        if (this.storage)
+        {
+            try
+            {
+                this.storage.setItem(this.storageKey, JSON.stringify(settings));
+            }
+            catch (e)
+            {
+                console.warn('Unable to save audio settings', e);
+            }
+        }
+        this.emit(AUDIO_SETTINGS_CHANGED, settings);
+    }
+
+    /** Applies the volume and mute state for a channel to a clip. */
+    private updateClip(clip: Sound, channel: Exclude<AudioChannel, 'master'>): void
+    {
+        if (!this.baseVolumes.has(clip))
+        {
+            this.baseVolumes.set(clip, clip.volume);
+        }
+        const duck = channel == 'music' || (channel == 'sfx' && this.ducking.duckSfx) ? this.duckLevel : 1;
+        const fade = this.fadeLevels.get(clip) ?? 1;
+        clip.volume = this.baseVolumes.get(clip)! * this.volumes[channel] * this.volumes.master * fade * duck;
+        switch (channel)
+        {
+            case 'music': clip.mute = this._musicMuted || this._allMuted; break;
+            case 'sfx': clip.mute = this._sfxMuted || this._allMuted; break;
+            case 'vo': clip.mute = this._voMuted || this._allMuted; break;
+        }
+    }
+
+    private updateAllClips(): void
+    {
+        for (const clip of this.musicClips)
+        {
+            this.updateClip(clip, 'music');
+        }
+        for (const clip of this.fadingMusic)
+        {
+            this.updateClip(clip, 'music');
+        }
+        for (const clip of this.sfxClips)
+        {
+            this.updateClip(clip, 'sfx');
+        }
+        if (this.currentVOClip)
+        {
+            this.updateClip(this.currentVOClip, 'vo');
+        }
+    }
+
+    /**
+     * Pauses all music, sfx and VO that is playing, along with any fades, until resumeAll() is called.
+     * Anything started while paused is paused as well the next time this is called.
+     */
+    public pauseAll(): void
+    {
+        this.paused = true;
+        const clips = [...this.musicClips, ...this.fadingMusic, ...this.sfxClips, this.currentVOClip];
+        for (const clip of clips)
+        {
+            if (clip?.isPlaying && !this.pausedClips.includes(clip))
+            {
+                clip.pause();
+                this.pausedClips.push(clip);
+            }
+        }
+    }
+
+    /** Resumes everything paused by pauseAll(). */
+    public resumeAll(): void
+    {
+        this.paused = false;
+        for (const clip of this.pausedClips)
+        {
+            if (clip.isPaused)
+            {
+                clip.resume();
+            }
+        }
+        this.pausedClips = [];
+    }
+
+    /** Changes how music is ducked under voice-over. */
+    public setDucking(config: Partial<DuckingConfig>): void
+    {
+        Object.assign(this.ducking, config);
+    }
+
+    /**
+     * Advances fades and ducking. Called by the game every frame.
+     * @param delta Milliseconds since the last update.
+     */
+    public update(delta: number): void
+    {
+        if (this.paused) return;
+        for (const fade of this.fades.values())
+        {
+            fade.elapsed = Math.min(fade.elapsed + delta, fade.duration);
+            const progress = fade.duration > 0 ? fade.elapsed / fade.duration : 1;
+            this.fadeLevels.set(fade.clip, fade.from + (fade.to - fade.from) * progress);
+            this.updateClip(fade.clip, fade.channel);
+            if (progress >= 1)
+            {
+                this.fades.delete(fade.clip);
+                if (fade.stopWhenDone)
+                {
+                    fade.clip.stop();
+                    this.fadingMusic.delete(fade.clip);
+                    this.fadeLevels.delete(fade.clip);
+                }
+                fade.resolve();
+            }
+        }
+
+        const duckTarget = this.ducking.enabled && this.voActive ? this.ducking.level : 1;
+        if (this.duckLevel != duckTarget)
+        {
+            const duration = duckTarget < this.duckLevel ? this.ducking.attack : this.ducking.release;
+            const step = duration > 0 ? (1 - this.ducking.level) * delta / duration : 1;
+            this.duckLevel = duckTarget < this.duckLevel ?
+                Math.max(duckTarget, this.duckLevel - step) :
+                Math.min(duckTarget, this.duckLevel + step);
+            for (const clip of this.musicClips)
+            {
+                this.updateClip(clip, 'music');
+            }
+            if (this.ducking.duckSfx)
+            {
+                for (const clip of this.sfxClips)
+                {
+                    this.updateClip(clip, 'sfx');
+                }
+            }
+        }
+    }
+
+    /**
+     * Fades a clip's volume to a level (0-1, relative to its normal volume) over a duration.
+     * Any fade already in progress on the clip is finished immediately.
+     */
+    private fadeClip(clip: Sound, channel: Fade['channel'], to: number, duration: number, stopWhenDone = false): Promise<void>
+    {
+        this.fades.get(clip)?.resolve();
+        return new Promise(resolve =>
+        {
+            this.fades.set(clip, {
+                clip,
+                channel,
+                from: this.fadeLevels.get(clip) ?? 1,
+                to,
+                duration,
+                elapsed: 0,
+                stopWhenDone,
+                resolve,
+            });
+        });
     }
 
     public preloadGlobalSfx(scene: Phaser.Scene, sfx: Record<string, string[]>)
@@ -43,24 +381,42 @@ export class AudioManager
         }
     }
 
+    /**
+     * Preloads an audio sprite, each marker of which will be added to globalSfx by marker name.
+     */
+    public preloadGlobalSfxSprite(scene: Phaser.Scene, key: string, jsonUrl: string, urls: string[]): void
+    {
+        this.globalSfxSprites.push(key);
+        scene.load.audioSprite(key, jsonUrl, urls);
+    }
+
     public createGlobalSfx(scene: Phaser.Scene)
     {
         for (const [name] of this.globalSfx)
         {
             this.globalSfx.set(name, scene.sound.add(name, {volume: 0.5}) as Sound);
         }
+        for (const key of this.globalSfxSprites)
+        {
+            for (const [name, sound] of createSpriteSounds(scene.sound, key, 0.5))
+            {
+                this.globalSfx.set(name, sound);
+            }
+        }
     }
 
     public setAllMute(muted: boolean): void
     {
         this._allMuted = muted;
-        this.setMusicMute(this._musicMuted);
-        this.setSfxMute(this._sfxMuted);
-        this.setVOMute(this._voMuted);
+        this.updateAllClips();
+        this.settingsChanged();
     }
 
     public stopAllVOClips(): void
     {
+        this.voActive = false;
+        const finish = this.finishVO;
+        this.finishVO = null;
         if (this.currentVOClip && this.currentVOClip.removeAllListeners && this.currentVOClip.stop)
         {
             this.currentVOClip.removeAllListeners('stop');
@@ -68,27 +424,28 @@ export class AudioManager
             this.currentVOClip = null;
         }
 
-        if (!this.currentVOClips)
+        if (this.currentVOClips)
         {
-            return;
-        }
-        for (let i = 0; i < this.currentVOClips.length; i++)
-        {
-            if (this.currentVOClips[i])
+            for (let i = 0; i < this.currentVOClips.length; i++)
             {
-                this.currentVOClips[i].removeAllListeners('complete');
-                if (this.currentVOClips[i] != this.currentVOClip)
+                if (this.currentVOClips[i])
                 {
-                    this.currentVOClips[i].stop();
+                    this.currentVOClips[i].removeAllListeners('complete');
+                    if (this.currentVOClips[i] != this.currentVOClip)
+                    {
+                        this.currentVOClips[i].stop();
+                    }
+                }
+                else
+                {
+                    console.error('cannot stop audioclip', this.currentVOClips[i]);
+                    console.error('full array of clips', this.currentVOClips);
                 }
-            }
-            else
-            {
-                console.error('cannot stop audioclip', this.currentVOClips[i]);
-                console.error('full array of clips', this.currentVOClips);
             }
         }
         this.currentVOClips = null;
+        // let anything waiting on the stopped clip carry on
+        finish?.();
     }
 
     public async playVOClips(audioClips:Sound[]): Promise<void>
@@ -102,9 +459,12 @@ export class AudioManager
         }
 
         this.currentVOClips = audioClips;
+        const playing = audioClips;
         audioClips = audioClips.slice();
         while (audioClips.length)
         {
+            // stopped, or replaced by other VO
+            if (this.currentVOClips !== playing) return;
             const clip = audioClips.shift();
             if (!clip)
             {
@@ -112,27 +472,66 @@ export class AudioManager
                 console.error('Full array', this.currentVOClips);
                 continue;
             }
-            await this.playSingleVOClip(clip);
+            await this.playVOClip(clip);
         }
     }
 
-    public playMusic(music:Sound, loop = true): void
+    /**
+     * @param fadeIn Milliseconds to fade the music in over.
+     */
+    public playMusic(music:Sound, loop = true, fadeIn = 0): void
     {
         // this.stopMusic();
-        music.play({loop, mute: this._musicMuted || this._allMuted});
+        this.fades.get(music)?.resolve();
+        this.fades.delete(music);
+        this.fadingMusic.delete(music);
+        this.fadeLevels.set(music, fadeIn > 0 ? 0 : 1);
+        this.updateClip(music, 'music');
+        playSound(music, {loop, mute: this._musicMuted || this._allMuted, volume: music.volume});
         this.musicClips.push(music);
+        if (fadeIn > 0)
+        {
+            this.fadeClip(music, 'music', 1, fadeIn);
+        }
     }
 
-    public stopMusic(): void
+    /**
+     * Stops all music.
+     * @param fadeOut Milliseconds to fade the music out over before stopping it.
+     * @returns A promise that resolves when the music has stopped.
+     */
+    public stopMusic(fadeOut = 0): Promise<void>
     {
-        if (this.musicClips?.length > 0)
+        const clips = this.musicClips;
+        this.musicClips = [];
+        if (fadeOut <= 0)
         {
-            for (let i = 0; i < this.musicClips.length; i++)
+            // stopping also cuts off anything still fading out
+            for (const clip of [...clips, ...this.fadingMusic])
             {
-                this.musicClips[i].stop();
+                this.fades.get(clip)?.resolve();
+                this.fades.delete(clip);
+                this.fadeLevels.delete(clip);
+                clip.stop();
             }
+            this.fadingMusic.clear();
+            return Promise.resolve();
         }
-        this.musicClips = [];
+        return Promise.all(clips.map(clip =>
+        {
+            this.fadingMusic.add(clip);
+            return this.fadeClip(clip, 'music', 0, fadeOut, true);
+        })).then(() => undefined);
+    }
+
+    /**
+     * Fades out any current music while fading in new music.
+     */
+    public crossfadeMusic(next: Sound, duration: number, loop = true): Promise<void>
+    {
+        const stopped = this.stopMusic(duration);
+        this.playMusic(next, loop, duration);
+        return stopped;
     }
 
     public setMusicMute(muted:boolean): void
@@ -145,6 +544,7 @@ export class AudioManager
                 this.musicClips[i].mute = muted || this._allMuted;
             }
         }
+        this.settingsChanged();
     }
 
     public playSfx(sfx: Sound, stop = false, loop = false): void
@@ -162,7 +562,8 @@ export class AudioManager
         {
             return;
         }
-        sfx.play({loop, mute: this._sfxMuted || this._allMuted});
+        this.updateClip(sfx, 'sfx');
+        playSound(sfx, {loop, mute: this._sfxMuted || this._allMuted, volume: sfx.volume});
         this.sfxClips.add(sfx);
         sfx.on('stop', () => this.removeSFX(sfx));
         sfx.on('complete', () => this.removeSFX(sfx));
@@ -199,6 +600,7 @@ export class AudioManager
                 clip.mute = muted || this._allMuted;
             }
         }
+        this.settingsChanged();
     }
 
     public setVOMute(muted: boolean): void
@@ -208,6 +610,7 @@ export class AudioManager
         {
             this.currentVOClip.mute = muted || this._allMuted;
         }
+        this.settingsChanged();
     }
 
     public playSingleVOClip(audio: Sound): Promise<void>
@@ -218,16 +621,33 @@ export class AudioManager
             return Promise.resolve();
         }
         this.stopAllVOClips();
+        return this.playVOClip(audio);
+    }
+
+    /**
+     * Plays a VO clip without stopping other VO first. Resolves when the clip completes or is stopped
+     * with stopAllVOClips().
+     */
+    private playVOClip(audio: Sound): Promise<void>
+    {
         this.currentVOClip = audio;
-        audio.mute = this._voMuted || this._allMuted;
+        this.updateClip(audio, 'vo');
+        this.voActive = true;
         return new Promise(resolve =>
         {
-            audio.on('complete', () =>
+            const finish = () =>
             {
-                audio.off('complete');
+                audio.off('complete', finish);
+                if (this.finishVO === finish)
+                {
+                    this.finishVO = null;
+                    this.voActive = false;
+                }
                 resolve();
-            });
-            audio.play();
+            };
+            this.finishVO = finish;
+            audio.on('complete', finish);
+            playSound(audio, { mute: audio.mute, volume: audio.volume });
         });
     }
 
@@ -0,0 +1,50 @@
+import Phaser from 'phaser';
+import type { Sound } from './AudioManager';
+
+/** The marker that each audio sprite sound plays. */
+const SPRITE_MARKERS = new WeakMap<Sound, string>();
+
+/**
+ * Creates a sound for each marker in a loaded audio sprite, by marker name. Each sound can be used anywhere
+ * a regular Sound is, and is played, muted and stopped independently of the others.
+ */
+export function createSpriteSounds(manager: Phaser.Sound.BaseSoundManager, key: string, volume = 1): Map<string, Sound>
+{
+    const sounds = new Map<string, Sound>();
+    const spritemap = manager.game.cache.json.get(key)?.spritemap;
+    if (!spritemap)
+    {
+        console.error(`Audio sprite ${key} has no spritemap, is it loaded?`);
+        return sounds;
+    }
+    for (const name in spritemap)
+    {
+        const marker = spritemap[name];
+        const sound = manager.add(key, { volume }) as Sound;
+        sound.addMarker({
+            name,
+            start: marker.start,
+            duration: marker.end - marker.start,
+            config: { loop: !!marker.loop },
+        });
+        SPRITE_MARKERS.set(sound, name);
+        sounds.set(name, sound);
+    }
+    return sounds;
+}
+
+/** The audio sprite marker a sound plays, or null if it is a regular sound. */
+export function getSpriteMarker(sound: Sound): string|null
+{
+    return SPRITE_MARKERS.get(sound) ?? null;
+}
+
+/**
+ * Plays a sound, playing just its marker if it is an audio sprite sound. As Phaser resets volume and mute
+ * from the config when playing, those should be included.
+ */
+export function playSound(sound: Sound, config?: Phaser.Types.Sound.SoundConfig): boolean
+{
+    const marker = SPRITE_MARKERS.get(sound);
+    return marker ? sound.play(marker, config) : sound.play(config);
+}
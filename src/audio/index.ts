@@ -1 +1,2 @@
-export * from './AudioManager';
\ No newline at end of file
+export * from './AudioManager';
+export * from './AudioSprite';
\ No newline at end of file
@@ -0,0 +1,245 @@
+import Phaser from 'phaser';
+import type { BaseGame } from '../game';
+import type { LoadInfo } from '../scene';
+import type { Sound } from '../audio';
+
+/** Asset types that end up as textures, and so take up GPU memory. */
+const TEXTURE_TYPES: LoadInfo['type'][] = ['image', 'atlas', 'spritesheet', 'svg', 'bitmapFont', 'spine'];
+
+export interface InspectorOptions
+{
+    /** KeyboardEvent.code of the key that shows and hides the inspector. Defaults to 'F9'. */
+    toggleKey?: string;
+    /** How often the inspector updates while shown, in milliseconds. Defaults to 250. */
+    refreshInterval?: number;
+}
+
+export interface ClipSnapshot
+{
+    key: string;
+    playing: boolean;
+    muted: boolean;
+}
+
+/** The library's state at a moment in time, as shown by the inspector. */
+export interface InspectorSnapshot
+{
+    scene: {id: string|null, args: unknown, staticConfig: unknown}|null;
+    navigating: boolean;
+    /** Keys tracked by the current scene's ManagedLoader, by asset type. */
+    assets: {[type: string]: string[]};
+    /** Estimated memory used by the current scene's textures, in bytes. */
+    textureBytes: number;
+    audio: {
+        music: ClipSnapshot[],
+        sfx: ClipSnapshot[],
+        vo: ClipSnapshot[],
+        musicMuted: boolean,
+        sfxMuted: boolean,
+        voMuted: boolean,
+        allMuted: boolean,
+    };
+    /** Descriptions of the interactives in the focus baseline. */
+    focusBaseline: string[];
+}
+
+/**
+ * Estimates the memory a loaded asset's textures take up, as uncompressed RGBA. Returns 0 for anything that
+ * isn't a texture.
+ */
+export function estimateTextureBytes(game: Phaser.Game, key: string, info: LoadInfo): number
+{
+    if (!TEXTURE_TYPES.includes(info.type)) return 0;
+    // spine textures are keyed by their atlas pages, not the spine key
+    const keys = info.type == 'spine' ?
+        (info.multiFile?.files ?? []).filter(file => file.type == 'image').map(file => file.key) :
+        [key];
+    let bytes = 0;
+    for (const textureKey of keys)
+    {
+        if (!game.textures.exists(textureKey)) continue;
+        for (const source of game.textures.get(textureKey).source)
+        {
+            bytes += source.width * source.height * 4;
+        }
+    }
+    return bytes;
+}
+
+function clipSnapshot(clip: Sound): ClipSnapshot
+{
+    return { key: clip.key, playing: clip.isPlaying, muted: clip.mute };
+}
+
+function describeInteractive(item: unknown): string
+{
+    const i = item as {name?: string, id?: string, label?: string, constructor?: {name: string}};
+    return i.name || i.label || i.id || i.constructor?.name || String(item);
+}
+
+/** Gathers the library's current state from a game. */
+export function inspect(game: BaseGame<any, any>): InspectorSnapshot
+{
+    const scene = game.currentScene ?? null;
+    const entry = game.currentEntry;
+    const assets: {[type: string]: string[]} = {};
+    let textureBytes = 0;
+    if (scene)
+    {
+        for (const key of scene.mLoad.trackedKeys)
+        {
+            const info = scene.mLoad.getLoadInfo(key);
+            if (!info) continue;
+            (assets[info.type] = assets[info.type] || []).push(key);
+            textureBytes += estimateTextureBytes(game, key, info);
+        }
+    }
+    const audio = game.audioManager;
+    const clips = audio.activeClips;
+    return {
+        scene: scene ? { id: entry?.id ?? null, args: entry?.args, staticConfig: scene.staticConfig } : null,
+        navigating: game.isNavigating,
+        assets,
+        textureBytes,
+        audio: {
+            music: clips.music.map(clipSnapshot),
+            sfx: clips.sfx.map(clipSnapshot),
+            vo: clips.vo.map(clipSnapshot),
+            musicMuted: audio.musicMuted,
+            sfxMuted: audio.sfxMuted,
+            voMuted: audio.voMuted,
+            allMuted: audio.allMuted,
+        },
+        focusBaseline: game.focusBaseline.map(describeInteractive),
+    };
+}
+
+function toJson(value: unknown): string
+{
+    try
+    {
+        return JSON.stringify(value, null, 2) ?? 'undefined';
+    }
+    catch (e)
+    {
+        // circular or otherwise unserializable config
+        return String(value);
+    }
+}
+
+function formatClips(clips: ClipSnapshot[]): string
+{
+    if (!clips.length) return 'none';
+    return clips.map(clip => `${clip.key}${clip.playing ? '' : ' (paused)'}${clip.muted ? ' (muted)' : ''}`).join(', ');
+}
+
+/** Formats a snapshot as text for display. */
+export function formatSnapshot(snapshot: InspectorSnapshot): string
+{
+    const lines: string[] = [];
+    const { scene, audio } = snapshot;
+    lines.push(`Scene: ${scene ? scene.id ?? '(not from navigation)' : 'none'}${snapshot.navigating ? ' [navigating]' : ''}`);
+    if (scene)
+    {
+        lines.push(`Args: ${toJson(scene.args)}`);
+        lines.push(`Static config: ${toJson(scene.staticConfig)}`);
+    }
+    lines.push('');
+    lines.push(`Assets (~${(snapshot.textureBytes / 1024 / 1024).toFixed(1)}MB of textures):`);
+    for (const type in snapshot.assets)
+    {
+        lines.push(`  ${type}: ${snapshot.assets[type].join(', ')}`);
+    }
+    lines.push('');
+    const muted = (channel: boolean) => channel ? ' [muted]' : '';
+    lines.push(`Audio${muted(audio.allMuted)}:`);
+    lines.push(`  music${muted(audio.musicMuted)}: ${formatClips(audio.music)}`);
+    lines.push(`  sfx${muted(audio.sfxMuted)}: ${formatClips(audio.sfx)}`);
+    lines.push(`  vo${muted(audio.voMuted)}: ${formatClips(audio.vo)}`);
+    lines.push('');
+    lines.push(`Focus baseline: ${snapshot.focusBaseline.length ? snapshot.focusBaseline.join(', ') : 'empty'}`);
+    return lines.join('\n');
+}
+
+/**
+ * An overlay showing the library's internal state - the current scene, navigation, loaded assets, audio and
+ * focus - toggled with a hotkey. This is in its own entry point so that it stays out of production builds:
+ *
+ *     if (__DEV__)
+ *     {
+ *         import('@fablevision/phaser-multi-scene-lib/dist/debug').then(debug => new debug.DebugInspector(game));
+ *     }
+ */
+export class DebugInspector
+{
+    private game: BaseGame<any, any>;
+    private options: Required<InspectorOptions>;
+    private root: HTMLPreElement;
+    private timer: number;
+    private onKeyDown: (e: KeyboardEvent) => void;
+
+    constructor(game: BaseGame<any, any>, options: InspectorOptions = {})
+    {
+        this.game = game;
+        this.options = { toggleKey: 'F9', refreshInterval: 250, ...options };
+        this.timer = 0;
+        this.root = document.createElement('pre');
+        this.root.style.cssText = 'position:fixed;top:8px;right:8px;z-index:100000;display:none;margin:0;padding:8px;' +
+            'background:rgba(0,0,0,0.85);color:#0f0;font:11px monospace;max-width:40%;max-height:90%;overflow:auto;' +
+            'pointer-events:none;white-space:pre-wrap;';
+        document.body.appendChild(this.root);
+
+        this.onKeyDown = (e: KeyboardEvent) =>
+        {
+            if (e.code != this.options.toggleKey) return;
+            e.preventDefault();
+            this.toggle();
+        };
+        window.addEventListener('keydown', this.onKeyDown);
+        game.events.once(Phaser.Core.Events.DESTROY, () => this.destroy());
+    }
+
+    public get visible(): boolean
+    {
+        return this.timer != 0;
+    }
+
+    public show(): void
+    {
+        if (this.visible) return;
+        this.root.style.display = '';
+        this.refresh();
+        this.timer = setInterval(() => this.refresh(), this.options.refreshInterval) as any;
+    }
+
+    public hide(): void
+    {
+        clearInterval(this.timer);
+        this.timer = 0;
+        this.root.style.display = 'none';
+    }
+
+    public toggle(): void
+    {
+        if (this.visible)
+        {
+            this.hide();
+        }
+        else
+        {
+            this.show();
+        }
+    }
+
+    public refresh(): void
+    {
+        this.root.textContent = formatSnapshot(inspect(this.game));
+    }
+
+    public destroy(): void
+    {
+        this.hide();
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.root.remove();
+    }
+}
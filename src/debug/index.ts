@@ -0,0 +1 @@
+export * from './DebugInspector';
\ No newline at end of file
@@ -1,19 +1,94 @@
 import Phaser from 'phaser';
 // Include Spine!
 import 'phaser/plugins/spine/dist/SpinePlugin.js';
-import { AudioManager } from '../audio';
+import { AUDIO_SETTINGS_CHANGED, AudioManager, AudioSettings } from '../audio';
 import { BaseGlobalHud } from './BaseGlobalHud';
-import { BaseScene } from '../scene';
-import { InteractionManager, Keyboard } from '@fablevision/interaction';
+import { AssetManifest, AssetRegistry, BaseScene, DEFAULT_PHASE_WEIGHTS, LOAD_COMPLETE, LOAD_PROGRESS, LoadOptions, LoadProgress, LoadReport } from '../scene';
+import { InteractionManager, Interactive, Keyboard, KeyConfig } from '@fablevision/interaction';
 import { PhaserHandler } from '@fablevision/interaction/dist/phaser';
+import { SceneRouter } from './SceneRouter';
+import { FadeTransition, SceneTransition, SlideTransition, TransitionConfig, WipeTransition } from './SceneTransition';
+import { PrefetchAssets, ScenePrefetcher } from './ScenePrefetcher';
+import { getLocalStorage, KeyValueStorage, SaveManager, SaveOptions } from '../storage';
+import { Analytics, AnalyticsSink } from '../analytics';
+import type { ScormAdapter } from '../scorm';
+import { Localization, Localized, LOCALE_CHANGED, StringTable } from '../localization';
+import { computeLayout, LayoutInfo, ScaleConfig } from './Layout';
+import { LifecycleEvents } from './LifecycleEvents';
 
-export type SceneConstructor<S, A> = new (config: string|Phaser.Types.Scenes.SettingsConfig) => BaseScene<S, A>;
+export type SceneConstructor<S, A> = (new (config: string|Phaser.Types.Scenes.SettingsConfig) => BaseScene<S, A>) &
+{
+    /** Queues up the scene's assets without creating the scene, so that they can be prefetched. */
+    prefetchAssets?: PrefetchAssets<S, A>;
+};
+
+/** A single entry in the navigation history. */
+export interface HistoryEntry<A>
+{
+    /** Scene id, as passed to goToScene(). */
+    id: string;
+    /** Args the scene was started with. */
+    args: A;
+}
+
+/**
+ * How a navigation affects the history stack:
+ * push - add a new entry, dropping anything forward of the current entry
+ * replace - overwrite the current entry
+ * none - leave the history alone (used when moving back/forward through it)
+ */
+export type HistoryMode = 'push'|'replace'|'none';
+
+/** Per-navigation options for goToScene(). */
+export interface NavigateOptions
+{
+    /** Transition to use instead of the one in the scene's staticConfig. */
+    transition?: TransitionConfig;
+    /** State from the scene's serializeState() to restore, when resuming a save. */
+    restoreState?: unknown;
+}
+
+/** Options for openOverlay(). */
+export interface OverlayOptions
+{
+    /** If the scene underneath should be paused while the overlay is open. Defaults to true. */
+    pauseUnderlying?: boolean;
+    /** Opacity of a black layer drawn behind the overlay to dim the scene underneath. Defaults to 0. */
+    dim?: number;
+    /** Keyboard shortcuts that are active while the overlay is open. */
+    keys?: KeyConfig[];
+}
+
+interface OverlayEntry<S, A>
+{
+    key: string;
+    id: string;
+    scene: BaseScene<S, A>;
+    /** The scene we paused underneath this overlay, if any. */
+    pausedScene: Phaser.Scene|null;
+    keyContext: KeyConfig[];
+}
 
 const SCENE_KEY = '__current_scene__';
 
+/** Emitted on the game's events when the game is paused. Passes true if it was paused automatically. */
+export const GAME_PAUSED = 'gamepaused';
+/** Emitted on the game's events when the game is resumed. */
+export const GAME_RESUMED = 'gameresumed';
+
+/** Emitted on the game's events by completeScene(), with the completed scene's id. */
+export const SCENE_COMPLETED = 'scenecompleted';
+
+/** Why the game is paused - by pause(), or automatically by the page being hidden or losing focus. */
+type PauseSource = 'user'|'auto';
+
 export class BaseGame<S, A> extends Phaser.Game
 {
     public audioManager: AudioManager;
+    /** Tracks which scenes are using which assets, so that shared assets aren't reloaded. */
+    public assets: AssetRegistry;
+    /** Game wide overrides of how ManagedLoaders retry failed files. */
+    public loadOptions: Partial<LoadOptions>;
     public interaction: InteractionManager;
     public keyboard: Keyboard;
     public globalScale: number;
@@ -27,7 +102,66 @@ export class BaseGame<S, A> extends Phaser.Game
     protected navigating: boolean;
     private designWidth: number;
     private designHeight: number;
-    private baseTitle: string;
+    private scaleConfig: ScaleConfig;
+    /** How the game currently fits the window, updated by resize(). */
+    public layout: LayoutInfo;
+    private baseTitle: Localized<string>;
+    /** Scene to go to when exiting a scene with no history to return to. */
+    protected homeScene: HistoryEntry<A>|null;
+    protected history: HistoryEntry<A>[];
+    protected historyIndex: number;
+    /** How the url should be updated when the scene being navigated to starts. */
+    private urlMode: HistoryMode;
+    /** Set if the browser history changed while we were busy navigating. */
+    private pendingPopState: boolean;
+    /** Set when we moved the browser's history ourselves to undo a cancelled navigation, to ignore the popstate it causes. */
+    private ignorePopState: boolean;
+    protected router: SceneRouter<A>|null;
+    protected transitions: Map<string, SceneTransition>;
+    /** Transition used when a scene's staticConfig doesn't specify one. */
+    protected defaultTransition: TransitionConfig;
+    /** Transition for the navigation in progress, if not using the loader. */
+    private activeTransition: SceneTransition|null;
+    /** Stack of open overlays, topmost last. */
+    protected overlays: OverlayEntry<S, A>[];
+    private overlayCount: number;
+    protected prefetcher: ScenePrefetcher<S, A>;
+    /**
+     * Assets of the scene (and overlays) being left, kept loaded until the next scene has loaded so that any it
+     * shares with them aren't unloaded and downloaded again.
+     */
+    private heldAssets: string[];
+    /** Typed events for scenes starting and stopping, navigation, the loader and more. */
+    public lifecycle: LifecycleEvents<S, A>;
+    public analytics: Analytics;
+    public localization: Localization;
+    /** The current scene's id and when it started, for analytics. */
+    private enteredScene: {id: string, time: number}|null;
+    /** Id of the current scene, or null if it wasn't started through navigation. */
+    private sceneId: string|null;
+    /** Connection to the LMS, if running in one. */
+    public scorm: ScormAdapter|null;
+    /** Saves where the learner is, if saving is enabled. */
+    public saves: SaveManager<A>|null;
+    /** State to restore for the navigation in progress. */
+    private activeRestore: unknown;
+    /** If the current scene has started, and so has state worth saving. */
+    private sceneReady: boolean;
+    /** If the game pauses itself when the page is hidden or loses focus. */
+    public autoPause: boolean;
+    /** Reasons the game is paused. It stays paused until there are none left. */
+    private pauseSources: Set<PauseSource>;
+    /** Scenes that were running when the game was paused, to be resumed. */
+    private pausedScenes: Phaser.Scene[];
+    /**
+     * Empty focus context activated while paused, so that only the HUD and overlays opened while paused (which
+     * activate their own contexts on top of it) can be focused or used.
+     */
+    private pauseContext: Interactive[]|null;
+    /** What was last set as the InteractionManager's focus baseline. */
+    private baseline: Interactive[];
+    /** Loading progress currently shown by the global hud's loader. */
+    private loadProgress: LoadProgress|null;
 
     public get currentScene(): BaseScene<S, A>
     {
@@ -38,7 +172,42 @@ export class BaseGame<S, A> extends Phaser.Game
         {
             width: number,
             height: number,
-            baseTitle?: string,
+            baseTitle?: Localized<string>,
+            /** How the game is fit to the window. Defaults to fitting the design size, letterboxed. */
+            layout?: ScaleConfig,
+            /** Scene id to return to when exitScene() is called with no history. */
+            homeScene?: string,
+            /** Args for the home scene. */
+            homeArgs?: A,
+            /** Router for reflecting the current scene in the url. */
+            router?: SceneRouter<A>,
+            /** Transition to use when a scene doesn't specify one. Defaults to using the loader. */
+            defaultTransition?: TransitionConfig,
+            /** Parallel downloads to use for prefetching scenes in the background. Defaults to 2. */
+            prefetchConcurrency?: number,
+            /** Number of no longer used assets to keep loaded in case they are needed again. Defaults to 0. */
+            assetCacheSize?: number,
+            /** Retry/timeout/fallback settings for all ManagedLoaders. */
+            loadOptions?: Partial<LoadOptions>,
+            /** Where to persist audio settings. Defaults to localStorage, null to not persist them. */
+            audioStorage?: KeyValueStorage|null,
+            /** If the game should pause when the page is hidden or loses focus. Defaults to true. */
+            autoPause?: boolean,
+            /**
+             * Save settings, to turn on saving (to localStorage by default). Games that share a domain, like on a
+             * portal or in an LMS, each need their own `key`.
+             */
+            save?: SaveOptions|null,
+            /** Where to send analytics events. More can be added later with `analytics.addSink()`. */
+            analytics?: AnalyticsSink[],
+            /** SCORM LMS connection, to be initialized and terminated with the game. */
+            scorm?: ScormAdapter,
+            /** Locale to start in. Defaults to 'en'. */
+            locale?: string,
+            /** Locale to use for anything not translated into the current locale. Defaults to the starting locale. */
+            fallbackLocale?: string,
+            /** String tables by locale. */
+            strings?: {[locale: string]: StringTable},
             hudConstructor: new () => BaseGlobalHud<any>,
             uiDiv: string|HTMLDivElement,
         })
@@ -59,6 +228,8 @@ export class BaseGame<S, A> extends Phaser.Game
 
         this.designWidth = phaserParams.width;
         this.designHeight = phaserParams.height;
+        this.scaleConfig = phaserParams.layout || { mode: 'fit' };
+        this.layout = computeLayout(this.scaleConfig, this.designWidth, this.designHeight, this.designWidth, this.designHeight);
         this.baseTitle = phaserParams.baseTitle || '';
 
         // help Phaser out by telling it if we can use caf contained opus
@@ -67,8 +238,51 @@ export class BaseGame<S, A> extends Phaser.Game
         this.globalScale = 1;
         this.navigating = false;
         this._currentScene = null;
+        this.history = [];
+        this.historyIndex = -1;
+        this.urlMode = 'push';
+        this.pendingPopState = false;
+        this.ignorePopState = false;
+        this.router = phaserParams.router || null;
+        this.transitions = new Map<string, SceneTransition>([
+            ['fade', new FadeTransition()],
+            ['slide', new SlideTransition()],
+            ['wipe', new WipeTransition()],
+        ]);
+        this.defaultTransition = phaserParams.defaultTransition ?? false;
+        this.activeTransition = null;
+        this.overlays = [];
+        this.overlayCount = 0;
+        this.lifecycle = new LifecycleEvents();
+        this.analytics = new Analytics(phaserParams.analytics);
+        this.localization = new Localization(phaserParams.locale, phaserParams.fallbackLocale, phaserParams.strings);
+        document.documentElement.lang = this.localization.locale;
+        this.enteredScene = null;
+        this.sceneId = null;
+        // before saves, as they may be stored in the LMS
+        this.scorm = phaserParams.scorm ?? null;
+        this.scorm?.attach(this);
+        this.saves = phaserParams.save ? new SaveManager(phaserParams.save) : null;
+        this.activeRestore = undefined;
+        this.sceneReady = false;
+        this.autoPause = phaserParams.autoPause ?? true;
+        this.pauseSources = new Set();
+        this.pausedScenes = [];
+        this.pauseContext = null;
+        this.baseline = [];
+        this.loadProgress = null;
+        this.homeScene = phaserParams.homeScene ? { id: phaserParams.homeScene, args: phaserParams.homeArgs ?? {} as any } : null;
 
-        this.audioManager = new AudioManager();
+        this.audioManager = new AudioManager(phaserParams.audioStorage === undefined ? getLocalStorage() : phaserParams.audioStorage);
+        // audio fades and ducking, and the loader's smoothed progress, are advanced with the game loop
+        this.events.on(Phaser.Core.Events.STEP, (_time: number, delta: number) =>
+        {
+            this.audioManager.update(delta);
+            this.loadProgress?.update(delta);
+        });
+        this.assets = new AssetRegistry(this, phaserParams.assetCacheSize);
+        this.heldAssets = [];
+        this.loadOptions = phaserParams.loadOptions || {};
 
         const ui = phaserParams.uiDiv;
         this.uiDiv = typeof ui == 'string' ? document.getElementById(ui) as HTMLDivElement : ui;
@@ -83,6 +297,7 @@ export class BaseGame<S, A> extends Phaser.Game
 
         this.globalHud = new phaserParams.hudConstructor();
         this.scene.add('hud', this.globalHud, true);
+        this.prefetcher = new ScenePrefetcher(this, phaserParams.prefetchConcurrency);
 
         // debounce the resize events to a degree
         this.resizeTimer = 0;
@@ -100,6 +315,54 @@ export class BaseGame<S, A> extends Phaser.Game
 
             this.resizeTimer = setTimeout(resize, 50) as any;
         });
+
+        if (this.router)
+        {
+            window.addEventListener('popstate', () => this.onPopState());
+        }
+
+        // Phaser already watches visibilitychange and window blur/focus for us
+        this.events.on(Phaser.Core.Events.HIDDEN, () => this.onAutoPause(true));
+        this.events.on(Phaser.Core.Events.BLUR, () => this.onAutoPause(true));
+        this.events.on(Phaser.Core.Events.VISIBLE, () => this.onAutoPause(false));
+        this.events.on(Phaser.Core.Events.FOCUS, () => this.onAutoPause(false));
+        // the page may never come back, so save while we can
+        this.events.on(Phaser.Core.Events.HIDDEN, () =>
+        {
+            this.saveGame();
+            this.analytics.flush(true);
+        });
+
+        this.audioManager.on(AUDIO_SETTINGS_CHANGED, (settings: AudioSettings) =>
+        {
+            this.lifecycle.emit('audioSettingsChanged', settings);
+        });
+        this.trackLifecycle();
+    }
+
+    /** Sends analytics events as the game's lifecycle events happen. */
+    private trackLifecycle(): void
+    {
+        const lifecycle = this.lifecycle;
+        lifecycle.on('sceneLoaded', ({ id, duration }) => this.analytics.track('sceneLoaded', { sceneId: id ?? '', duration }));
+        lifecycle.on('sceneStarted', ({ id, args }) =>
+        {
+            this.enteredScene = { id: id ?? '', time: Date.now() };
+            this.analytics.track('sceneEntered', { sceneId: id ?? '', args });
+        });
+        lifecycle.on('beforeSceneShutdown', () =>
+        {
+            if (!this.enteredScene) return;
+            const { id, time } = this.enteredScene;
+            this.analytics.track('sceneExited', { sceneId: id, timeSpent: Date.now() - time });
+            this.enteredScene = null;
+        });
+        lifecycle.on('dialogueLineEnd', event =>
+        {
+            const data = { sceneId: this.enteredScene?.id ?? '', id: event.id };
+            this.analytics.track(event.skipped ? 'dialogueSkipped' : 'dialoguePlayed', data);
+        });
+        lifecycle.on('audioSettingsChanged', settings => this.analytics.track('audioSettingsChanged', settings));
     }
 
     /** To be overridden by a subclass */
@@ -114,6 +377,12 @@ export class BaseGame<S, A> extends Phaser.Game
         return Promise.resolve(null as any);
     }
 
+    /** To be overridden by a subclass, to list every scene id - used by development tools like TestGame's menu. */
+    public getSceneIds(): string[]
+    {
+        return [];
+    }
+
     protected async loadAndStart(stateProm: Promise<SceneConstructor<S, A>>, staticConfig: S, args?: A):Promise<void>
     {
         await this.globalHud.loaded.promise;
@@ -124,31 +393,344 @@ export class BaseGame<S, A> extends Phaser.Game
 
     protected async startScene(name:string, state: SceneConstructor<S, A>, staticConfig: S, args?: A): Promise<void>
     {
+        const loadStart = Date.now();
         this.scene.add(name, state);
         const scene = this._currentScene = this.scene.getScene(name) as BaseScene<S, A>;
+        const progress = scene.loadProgress = this.createLoadProgress(staticConfig);
+        this.displayProgress(progress);
+        // take over anything that was prefetched for this scene before it queues up its own loads
+        const entry = this.currentEntry;
+        const id = this.sceneId = entry?.id ?? null;
+        await this.prefetcher.claim(entry?.id ?? '', args || {} as any, scene.mLoad);
         // allow loading content with an async initialize
         await scene.initialize(staticConfig, args || {} as any);
+        progress.complete('initialize');
+        // after initialize, as loading content like manifests isn't part of loading assets
+        const stopTracking = progress.trackLoader(scene.load);
+        this.lifecycle.emit('sceneInitialized', { id, scene, args: args || {} as any });
         this.updateTitle();
-        this.updateUrl({}, false);
-        const progress = (p:number) => this.globalHud.updateProgress(p);
-        scene.load.on('progress', progress);
+        if (this.urlMode != 'none')
+        {
+            this.updateUrl(args || {} as any, this.urlMode == 'replace');
+        }
+        // with a transition, we only need the loader if there is actually something to load
+        const transition = this.activeTransition;
+        this.activeTransition = null;
+        const restoreState = this.activeRestore;
+        this.activeRestore = undefined;
+        let usingLoader = !transition;
+        const onLoadStart = () =>
+        {
+            usingLoader = true;
+            this.showLoader();
+        };
+        if (transition)
+        {
+            scene.load.once('start', onLoadStart);
+        }
         scene.events.once('loaded', () =>
         {
+            // if the scene had nothing to load, later loads (like runLoader()) aren't part of starting it
+            scene.load.off('start', onLoadStart);
+            // the scene has its own hold on what it shares with the previous one
+            this.releaseHeldAssets();
             // activate hud if desireable
             this.globalHud.showHud((scene.staticConfig as any)?.hud);
             this.restoreFocusBaseline();
             this.scene.moveAbove<Phaser.Scene>(scene, this.globalHud);
             this.resize();
-            scene.load.off('progress', progress);
-            this.hideLoader().then(() => scene.start());
+            stopTracking();
+            progress.finish();
+            this.displayProgress(null);
+            this.lifecycle.emit('sceneLoaded', { id, scene, duration: Date.now() - loadStart });
+            if (restoreState !== undefined)
+            {
+                scene.restoreState(restoreState);
+            }
+            const started = usingLoader ?
+                this.hideLoader().then(() => scene.start()) :
+                this.revealScene(scene, transition!);
+            started.then(() => this.onSceneStarted(scene));
         });
         this.scene.start(name);
         this.navigating = false;
+        if (this.pendingPopState)
+        {
+            this.pendingPopState = false;
+            this.onPopState();
+        }
+    }
+
+    /** Starts a scene that was loaded without the loader, and plays its transition in. */
+    protected async revealScene(scene: BaseScene<S, A>, transition: SceneTransition): Promise<void>
+    {
+        const revealed = transition.reveal(scene);
+        scene.start();
+        await revealed;
+        this.setInteractionEnabled(true);
+    }
+
+    /** Called after the current scene has started, and is therefore idle as far as loading goes. */
+    protected onSceneStarted(scene: BaseScene<S, A>): void
+    {
+        // if the game was paused while loading, the scene starts out paused
+        if (this.isPaused)
+        {
+            this.pauseRunning();
+            this.freezeInteraction();
+        }
+        this.sceneReady = true;
+        this.saveGame();
+        this.lifecycle.emit('sceneStarted', { id: this.sceneId, scene, args: this.currentEntry?.args as A });
+        this.prefetcher.resume();
+        const prefetch = (scene.staticConfig as any)?.prefetch as (string|HistoryEntry<A>)[]|undefined;
+        if (prefetch)
+        {
+            for (const next of prefetch)
+            {
+                const { id, args } = typeof next == 'string' ? { id: next, args: undefined } : next;
+                this.prefetchScene(id, args).catch(e => this.onPrefetchFailed(id, args, e));
+            }
+        }
+    }
+
+    /**
+     * Called when a scene couldn't be prefetched at all, like when its code failed to download. Reports it like
+     * any other load failure, and prefetches it again if that should be retried.
+     */
+    protected async onPrefetchFailed(id: string, args: A|undefined, error: unknown): Promise<void>
+    {
+        console.error(`Unable to prefetch scene '${id}': `, error);
+        this.prefetcher.cancel(id, args ?? {} as any);
+        const report: LoadReport = { ok: false, failed: [{ key: id, type: 'scene', reason: 'error', attempts: 1 }] };
+        if (await this.handleLoadFailure(report))
+        {
+            this.prefetchScene(id, args).catch(e => this.onPrefetchFailed(id, args, e));
+        }
+    }
+
+    /**
+     * Loads the assets for a scene the user is likely to go to next in the background, so that going
+     * to it is quick. The scene must have an asset manifest in its staticConfig, or its class must implement a static
+     * `prefetchAssets()` method.
+     */
+    public async prefetchScene(id: string, args?: A): Promise<void>
+    {
+        const metadata = this.getStaticConfig(id);
+        if (!metadata)
+        {
+            console.error('Unable to prefetch unknown scene: ', id);
+            return;
+        }
+        const state = await this.getSceneConstructor(id);
+        // scenes with an asset manifest can be prefetched without any extra work
+        const manifest = (metadata as any)?.manifest as string|AssetManifest|undefined;
+        let queueAssets: PrefetchAssets<S, A>|null = null;
+        if (state.prefetchAssets)
+        {
+            queueAssets = state.prefetchAssets.bind(state);
+        }
+        else if (manifest)
+        {
+            queueAssets = async loader =>
+            {
+                await loader.queueManifest(manifest);
+            };
+        }
+        if (!queueAssets)
+        {
+            console.warn(`Scene '${id}' has no manifest and does not implement prefetchAssets(), so it can't be prefetched`);
+            return;
+        }
+        this.prefetcher.prefetch(id, args ?? {} as any, metadata, queueAssets);
+    }
+
+    /**
+     * Cancels prefetching of a scene, or all scenes if no id is given.
+     */
+    public cancelPrefetch(id?: string): void
+    {
+        this.prefetcher.cancel(id);
+    }
+
+    /** Registers a transition, so that it can be referred to by name in staticConfigs or goToScene(). */
+    public registerTransition(name: string, transition: SceneTransition): void
+    {
+        this.transitions.set(name, transition);
+    }
+
+    /**
+     * Gets the transition to use when navigating to a scene. Returns null if the loader should be used instead.
+     */
+    protected getTransition(staticConfig: S, override?: TransitionConfig): SceneTransition|null
+    {
+        let config = override;
+        if (config === undefined)
+        {
+            config = (staticConfig as any)?.transition as TransitionConfig|undefined ?? this.defaultTransition;
+        }
+        if (!config) return null;
+        if (typeof config == 'string')
+        {
+            const transition = this.transitions.get(config);
+            if (!transition)
+            {
+                console.warn(`Unknown transition '${config}', using the loader instead`);
+            }
+            return transition || null;
+        }
+        return config;
     }
 
     public restoreFocusBaseline(): void
     {
-        this.interaction.setBaseline([], this.globalHud.hudInteractive);
+        // overlays are modal, so the hud isn't part of the baseline while one is open
+        this.baseline = this.overlays.length ? [] : this.globalHud.hudInteractive;
+        this.interaction.setBaseline([], this.baseline);
+    }
+
+    /** The interactives in the current focus baseline. */
+    public get focusBaseline(): Interactive[]
+    {
+        return this.baseline;
+    }
+
+    /** If navigating to another scene is in progress. */
+    public get isNavigating(): boolean
+    {
+        return this.navigating;
+    }
+
+    /** The topmost open overlay scene, if any. */
+    public get currentOverlay(): BaseScene<S, A>|null
+    {
+        return this.overlays[this.overlays.length - 1]?.scene ?? null;
+    }
+
+    /**
+     * Opens a scene as an overlay on top of the current scene (and any other overlays), like a glossary
+     * or pause menu. The overlay loads its own assets, and unloads them when closed.
+     * Resolves when the overlay has started.
+     */
+    public async openOverlay(id: string, args?: A, opts: OverlayOptions = {}): Promise<void>
+    {
+        if (this.navigating) return;
+        const metadata = this.getStaticConfig(id);
+        if (!metadata)
+        {
+            console.error('Unable to open unknown overlay: ', id);
+            return;
+        }
+        this.setInteractionEnabled(false);
+        let state: SceneConstructor<S, A>;
+        try
+        {
+            state = await this.getSceneConstructor(id);
+        }
+        catch (e)
+        {
+            // leave the game as it was
+            this.setInteractionEnabled(true);
+            throw e;
+        }
+
+        const underneath = this.currentOverlay || this._currentScene;
+        const pausedScene = underneath && opts.pauseUnderlying !== false ? underneath : null;
+        if (pausedScene)
+        {
+            this.scene.pause(pausedScene);
+        }
+
+        const key = `__overlay_${this.overlayCount++}__`;
+        this.scene.add(key, state);
+        const scene = this.scene.getScene(key) as BaseScene<S, A>;
+        scene.isOverlay = true;
+        const keyContext = opts.keys || [];
+        this.overlays.push({ key, id, scene, pausedScene, keyContext });
+        this.keyboard.activateContext(keyContext);
+        this.restoreFocusBaseline();
+
+        const progress = scene.loadProgress = this.createLoadProgress(metadata);
+        await scene.initialize(metadata, args ?? {} as any);
+        progress.complete('initialize');
+        const stopTracking = progress.trackLoader(scene.load);
+        await new Promise<void>(resolve =>
+        {
+            // only bother with the loader if the overlay has something to load
+            let usingLoader = false;
+            const onLoadStart = () =>
+            {
+                usingLoader = true;
+                this.displayProgress(progress);
+                this.showLoader();
+            };
+            scene.load.once('start', onLoadStart);
+            scene.events.once('loaded', async () =>
+            {
+                // later loads (like runLoader()) aren't part of opening the overlay
+                scene.load.off('start', onLoadStart);
+                if (opts.dim)
+                {
+                    scene.cameras.main.setBackgroundColor(`rgba(0,0,0,${opts.dim})`);
+                }
+                this.scene.bringToTop(scene);
+                scene.resize(this.layout);
+                stopTracking();
+                progress.finish();
+                if (this.loadProgress == progress)
+                {
+                    this.displayProgress(null);
+                }
+                if (usingLoader)
+                {
+                    await this.hideLoader();
+                }
+                else
+                {
+                    this.setInteractionEnabled(true);
+                }
+                // overlays opened while paused (like a pause menu) stay running, so that they can be used
+                scene.start();
+                resolve();
+            });
+            this.scene.start(key);
+        });
+    }
+
+    /**
+     * Closes the topmost overlay, unloading its assets and resuming the scene underneath.
+     */
+    public async closeOverlay(): Promise<void>
+    {
+        const overlay = this.overlays.pop();
+        if (!overlay) return;
+
+        await overlay.scene.asyncShutdown();
+        overlay.scene.shutdown();
+        this.scene.remove(overlay.key);
+        this.keyboard.removeContext(overlay.keyContext);
+        if (overlay.pausedScene)
+        {
+            if (this.isPaused)
+            {
+                // leave it for the game to resume
+                this.pausedScenes.push(overlay.pausedScene);
+            }
+            else
+            {
+                this.scene.resume(overlay.pausedScene);
+            }
+        }
+        this.restoreFocusBaseline();
+    }
+
+    /** Closes all open overlays, topmost first. */
+    public async closeAllOverlays(): Promise<void>
+    {
+        while (this.overlays.length)
+        {
+            await this.closeOverlay();
+        }
     }
 
     /**
@@ -159,97 +741,461 @@ export class BaseGame<S, A> extends Phaser.Game
         this.globalHud.showHud(config);
     }
 
+    /**
+     * Called when a scene's assets fail to load, even after retries. Resolves with true if the load
+     * should be tried again. By default, asks the global hud.
+     */
+    public handleLoadFailure(report: LoadReport): Promise<boolean>
+    {
+        console.error('Failed to load assets: ', report.failed);
+        return this.globalHud.showLoadError(report);
+    }
+
     /**
      * Shows the loader, attaches listeners to know when the current scene's load makes progress and finishes
      * and then resolves when the loader has been hidden.
+     * The returned progress follows the scene's loader, and is what the loader shows. Weights for extra phases
+     * (like 'warmup') can be given, and loading isn't finished until the scene has completed those too:
+     *
+     *     const [loaded, visible, progress] = this.game.runLoader({ warmup: 1 });
+     *     this.mLoad.load().then(() => this.buildLevel(progress)).then(() => progress.complete('warmup'));
      */
-    public runLoader(): [loaded: Promise<void>, visible: Promise<void>]
+    public runLoader(extraPhases: {[phase: string]: number} = {}): [loaded: Promise<void>, visible: Promise<void>, progress: LoadProgress]
     {
         const shown = this.showLoader();
-        const progress = (p: number) => this.globalHud.updateProgress(p);
-        this._currentScene!.load.on('progress', progress);
-        const complete = new Promise<void>(resolve =>
+        // don't let background prefetching compete with a load the user is waiting on
+        this.prefetcher.pause();
+        const progress = new LoadProgress({
+            assets: DEFAULT_PHASE_WEIGHTS.assets,
+            audio: DEFAULT_PHASE_WEIGHTS.audio,
+            ...extraPhases,
+        });
+        const stopTracking = progress.trackLoader(this._currentScene!.load);
+        this.displayProgress(progress);
+        const complete = new Promise<void>(resolve => progress.once(LOAD_COMPLETE, resolve));
+        complete.then(() =>
         {
-            this._currentScene!.load.once('complete', resolve);
-            this._currentScene!.load.off('progress', progress);
+            stopTracking();
+            progress.finish();
+            if (this.loadProgress == progress)
+            {
+                this.displayProgress(null);
+            }
+            this.prefetcher.resume();
         });
         const shownAndLoaded = Promise.all([complete, shown]);
-        return [shownAndLoaded as any, shownAndLoaded.then(() => this.hideLoader())];
+        return [shownAndLoaded as any, shownAndLoaded.then(() => this.hideLoader()), progress];
+    }
+
+    /** Creates progress for loading a scene, weighted by the default phase weights and the scene's `loadPhases`. */
+    protected createLoadProgress(staticConfig: S): LoadProgress
+    {
+        return new LoadProgress({ ...DEFAULT_PHASE_WEIGHTS, ...(staticConfig as any)?.loadPhases });
+    }
+
+    /** Sets the progress shown by the global hud's loader, replacing any shown before. */
+    private displayProgress(progress: LoadProgress|null): void
+    {
+        this.loadProgress?.off(LOAD_PROGRESS, this.globalHud.updateProgress, this.globalHud);
+        this.loadProgress = progress;
+        if (progress)
+        {
+            progress.on(LOAD_PROGRESS, this.globalHud.updateProgress, this.globalHud);
+            this.globalHud.updateProgress(progress.value);
+        }
     }
 
-    public updateUrl<T>(_args: T, _replace = true): void
+    /**
+     * Updates the args of the current history entry, and the url if the game has a router. Scenes can call this
+     * if their state changes in a way that should be reflected in the url (like moving to the next level).
+     */
+    public updateUrl(args: A, replace = true): void
     {
         this.updateTitle();
-        // to be overridden by subclass
+        const entry = this.currentEntry;
+        if (!entry) return;
+        entry.args = args;
+        if (!this.router) return;
+
+        const url = this.router.toUrl(entry.id, args);
+        const state = { historyIndex: this.historyIndex };
+        if (replace)
+        {
+            window.history.replaceState(state, '', url);
+        }
+        else
+        {
+            window.history.pushState(state, '', url);
+        }
+    }
+
+    /**
+     * Starts the game at the scene described by the current url, or at a default scene if the url doesn't
+     * describe a valid scene. Requires a router.
+     */
+    public async startFromUrl(defaultId: string, defaultArgs?: A): Promise<void>
+    {
+        const route = this.router?.fromUrl(window.location);
+        if (route && this.getStaticConfig(route.id))
+        {
+            return this.goToSceneWithArgs(route.id, route.args, 'replace');
+        }
+        return this.goToSceneWithArgs(defaultId, defaultArgs ?? {} as any, 'replace');
+    }
+
+    /** Navigates to match the browser's history when the user uses the browser's back/forward buttons. */
+    protected onPopState(): void
+    {
+        if (this.ignorePopState)
+        {
+            this.ignorePopState = false;
+            return;
+        }
+        if (this.navigating)
+        {
+            this.pendingPopState = true;
+            return;
+        }
+        const index = (window.history.state as {historyIndex?: number}|null)?.historyIndex;
+        if (typeof index == 'number' && this.history[index])
+        {
+            if (index != this.historyIndex)
+            {
+                this.goToHistoryIndex(index, true);
+            }
+            return;
+        }
+        // an entry we didn't create (like the user editing the hash), so treat it as a new entry
+        const route = this.router!.fromUrl(window.location);
+        if (!route) return;
+        if (!this.lifecycle.beforeNavigate(route.id, route.args, this.currentEntry))
+        {
+            // we don't know where this entry is in the browser's history to move back from it, so put our url on it
+            const current = this.currentEntry;
+            if (current)
+            {
+                this.updateUrl(current.args);
+            }
+            return;
+        }
+        this.changeScene(route.id, route.args, 'push', 'replace');
     }
 
     protected updateTitle(): void
     {
-        const name = (this._currentScene!.staticConfig as any)?.title;
+        const name = this.localization.resolve((this._currentScene?.staticConfig as any)?.title as Localized<string>|undefined);
+        const baseTitle = this.localization.resolve(this.baseTitle) || '';
         if (name)
         {
-            document.title = `${this.baseTitle ? this.baseTitle + ': ' : ''}${name}`;
+            document.title = `${baseTitle ? baseTitle + ': ' : ''}${name}`;
         }
         else
         {
-            document.title = this.baseTitle;
+            document.title = baseTitle;
         }
     }
 
-    /** Exit the current scene, potentially returning to whence the user came. */
+    /**
+     * Changes the language of the game. Localized audio and captions for the current scene and overlays are
+     * reloaded, then they and the HUD are notified so that they can re-render text.
+     */
+    public async setLocale(locale: string): Promise<void>
+    {
+        if (locale == this.localization.locale) return;
+        this.localization.locale = locale;
+        document.documentElement.lang = locale;
+        // anything playing is in the old language
+        this.audioManager.stopAllVOClips();
+        // anything prefetched is in the old language too
+        this.prefetcher.cancel();
+        const scenes = [this._currentScene, ...this.overlays.map(o => o.scene)].filter(s => !!s) as BaseScene<S, A>[];
+        // audio shared between the scene and overlays is only unloaded once they have all let go of it
+        scenes.forEach(scene => scene.mLoad.unloadLocalizedAudio());
+        const reports = await Promise.all(scenes.map(scene => scene.mLoad.reloadLocalizedAudio()));
+        for (const report of reports)
+        {
+            if (!report.ok)
+            {
+                console.error('Unable to load audio for locale', locale, report.failed);
+            }
+        }
+        if (this._currentScene)
+        {
+            this.updateTitle();
+        }
+        for (const scene of scenes)
+        {
+            scene.onLocaleChanged(locale);
+        }
+        this.globalHud.onLocaleChanged(locale);
+        this.events.emit(LOCALE_CHANGED, locale);
+        this.lifecycle.emit('localeChanged', { locale });
+    }
+
+    /** The history entry for the current scene, if the current scene was reached through goToScene(). */
+    public get currentEntry(): HistoryEntry<A>|null
+    {
+        return this.history[this.historyIndex] ?? null;
+    }
+
+    /** If there is a previous entry in the navigation history. */
+    public get canGoBack(): boolean
+    {
+        return this.historyIndex > 0;
+    }
+
+    /** If there is a next entry in the navigation history (after having gone back). */
+    public get canGoForward(): boolean
+    {
+        return this.historyIndex < this.history.length - 1;
+    }
+
+    /** Exit the current scene, returning to the previous scene in the history or the home scene. */
     public async exitScene(): Promise<void>
     {
         if (this.navigating) return;
+        if (this.canGoBack)
+        {
+            return this.back();
+        }
+        if (this.homeScene && this.currentEntry?.id !== this.homeScene.id)
+        {
+            return this.goToSceneWithArgs(this.homeScene.id, this.homeScene.args, 'replace');
+        }
         await this.endCurrentScene();
+        // there is no next scene to share anything with
+        this.releaseHeldAssets();
+    }
+
+    /** Go to the previous scene in the navigation history. */
+    public async back(): Promise<void>
+    {
+        if (this.navigating || !this.canGoBack) return;
+        if (this.router)
+        {
+            // let the browser's history drive it, so that the browser's back/forward buttons stay in sync
+            window.history.back();
+            return;
+        }
+        return this.goToHistoryIndex(this.historyIndex - 1);
+    }
+
+    /** Go to the next scene in the navigation history, after having gone back. */
+    public async forward(): Promise<void>
+    {
+        if (this.navigating || !this.canGoForward) return;
+        if (this.router)
+        {
+            window.history.forward();
+            return;
+        }
+        return this.goToHistoryIndex(this.historyIndex + 1);
+    }
+
+    /**
+     * Go to a scene, replacing the current history entry instead of adding a new one - for example so that
+     * going back from the next level of an activity skips past the previous level.
+     */
+    public async replaceScene(id: string, args?: A, opts?: NavigateOptions): Promise<void>
+    {
+        if (this.navigating) return;
+        return this.goToSceneWithArgs(id, args ?? {} as any, 'replace', 'replace', opts);
     }
 
-    protected async endCurrentScene(): Promise<void>
+    /**
+     * Moves to an entry in the navigation history. fromBrowser is for when the browser's history has already moved
+     * to the entry, so that it can be moved back if the navigation is cancelled.
+     */
+    protected async goToHistoryIndex(index: number, fromBrowser = false): Promise<void>
     {
+        const entry = this.history[index];
+        if (!entry || this.navigating) return;
+        if (!this.lifecycle.beforeNavigate(entry.id, entry.args, this.currentEntry))
+        {
+            if (fromBrowser)
+            {
+                this.ignorePopState = true;
+                window.history.go(this.historyIndex - index);
+            }
+            return;
+        }
+        this.historyIndex = index;
+        // the browser will already be at the right url if it is driving, but update the state anyway
+        return this.changeScene(entry.id, entry.args, 'none', 'replace');
+    }
+
+    /** Updates the history stack for a navigation to a valid scene. */
+    protected recordHistory(id: string, args: A, mode: HistoryMode): void
+    {
+        switch (mode)
+        {
+            case 'push':
+                this.history.length = this.historyIndex + 1;
+                this.history.push({ id, args });
+                this.historyIndex = this.history.length - 1;
+                break;
+            case 'replace':
+                if (this.historyIndex < 0)
+                {
+                    this.historyIndex = 0;
+                }
+                this.history[this.historyIndex] = { id, args };
+                break;
+        }
+    }
+
+    /**
+     * Ends the current scene, covering it with the loader or the given transition first.
+     */
+    protected async endCurrentScene(transition?: SceneTransition|null): Promise<void>
+    {
+        // leaving the scene (like quitting from a pause menu) ends a pause from pause(), but not an automatic one
+        this.setPaused('user', false, false);
         this.navigating = true;
-        await this.showLoader();
+        this.prefetcher.pause();
+        if (transition && this._currentScene)
+        {
+            this.setInteractionEnabled(false);
+            await transition.cover(this._currentScene);
+        }
+        else
+        {
+            await this.showLoader();
+        }
+        const leaving = [this._currentScene, ...this.overlays.map(o => o.scene)];
+        for (const scene of leaving)
+        {
+            if (scene)
+            {
+                this.holdAssets(scene.mLoad.trackedKeys);
+            }
+        }
+        await this.closeAllOverlays();
+        this.sceneReady = false;
         if (this._currentScene)
         {
+            const id = this.sceneId;
+            this.lifecycle.emit('beforeSceneShutdown', { id, scene: this._currentScene });
             await this._currentScene.asyncShutdown();
             this._currentScene.shutdown();
             this.scene.remove(SCENE_KEY);
             this._currentScene = null;
+            this.sceneId = null;
+            this.lifecycle.emit('sceneShutdown', { id });
         }
         // reset InteractionManager and keyboard
         this.interaction.reset();
+        // the reset cleared out the pause's focus context, and a scene started while paused gets a new one
+        this.pauseContext = null;
+        this.baseline = [];
         this.interaction.setBaseline([], []);
         this.keyboard.clearContexts();
     }
 
+    /** Keeps assets loaded until releaseHeldAssets(), even once their loaders have unloaded them. */
+    private holdAssets(keys: string[]): void
+    {
+        for (const key of keys)
+        {
+            const info = this.assets.getInfo(key);
+            // assets that failed to load aren't in the registry, and there is nothing to keep
+            if (info && !this.heldAssets.includes(key))
+            {
+                this.assets.acquire(key, info, this);
+                this.heldAssets.push(key);
+            }
+        }
+    }
+
+    /** Lets go of assets from the previous scene, unloading any that the current scene isn't using. */
+    private releaseHeldAssets(): void
+    {
+        for (const key of this.heldAssets)
+        {
+            this.assets.release(key, this);
+        }
+        this.heldAssets = [];
+    }
+
     /**
      * Go to a scene, finding metadata and default args
      */
-    public async goToScene(id: string, args?: A): Promise<void>
+    public async goToScene(id: string, args?: A, opts?: NavigateOptions): Promise<void>
     {
         if (this.navigating) return;
-        return this.goToSceneWithArgs(id, args ?? {} as any);
+        return this.goToSceneWithArgs(id, args ?? {} as any, 'push', 'push', opts);
     }
 
-    protected async goToSceneWithArgs(id: string, args: A): Promise<void>
+    protected async goToSceneWithArgs(id: string, args: A, historyMode: HistoryMode = 'push', urlMode: HistoryMode = historyMode, opts?: NavigateOptions): Promise<void>
     {
-        if (this.navigating) return;
-        await this.endCurrentScene();
+        if (this.navigating || !this.lifecycle.beforeNavigate(id, args, this.currentEntry)) return;
+        return this.changeScene(id, args, historyMode, urlMode, opts);
+    }
 
+    /** Ends the current scene and starts loading the next, once beforeNavigate listeners have allowed it. */
+    private async changeScene(id: string, args: A, historyMode: HistoryMode, urlMode: HistoryMode, opts?: NavigateOptions): Promise<void>
+    {
+        if (this.navigating) return;
         const metadata = this.getStaticConfig(id);
+        // transitions only apply when there is a scene to transition from
+        const transition = this._currentScene && metadata ? this.getTransition(metadata, opts?.transition) : null;
+        await this.endCurrentScene(transition);
+
         if (!metadata)
         {
             console.error('Unable to go to unknown scene: ', id);
+            this.releaseHeldAssets();
             return;
         }
+        this.recordHistory(id, args, historyMode);
+        this.urlMode = urlMode;
+        this.activeTransition = transition;
+        this.activeRestore = opts?.restoreState;
         this.loadAndStart(this.getSceneConstructor(id), metadata, args);
     }
 
+    /**
+     * Saves the current scene and its state. This happens automatically when a scene starts and when
+     * the page is hidden, but scenes can call it at important points as well.
+     */
+    public saveGame(): void
+    {
+        const entry = this.currentEntry;
+        if (!this.saves || !this.sceneReady || !entry || !this._currentScene) return;
+        this.saves.save(entry.id, entry.args, this._currentScene.serializeState());
+    }
+
+    /**
+     * Marks a scene (by default the current one) as completed, for anything tracking the learner's progress
+     * like an LMS.
+     */
+    public completeScene(id = this.currentEntry?.id): void
+    {
+        if (!id) return;
+        this.events.emit(SCENE_COMPLETED, id);
+        this.lifecycle.emit('sceneCompleted', { id });
+    }
+
+    /**
+     * Goes to the saved scene, restoring its state, or to a default scene if there is no usable save.
+     */
+    public async resumeFromSave(defaultId: string, defaultArgs?: A): Promise<void>
+    {
+        const save = this.saves?.load();
+        if (save && this.getStaticConfig(save.sceneId))
+        {
+            return this.goToScene(save.sceneId, save.args, { restoreState: save.state });
+        }
+        return this.goToScene(defaultId, defaultArgs);
+    }
+
     /**
      * Shows loader. Returns a promise that resolves when loader is fully visible.
      */
     public showLoader(): Promise<void>
     {
-        this.interaction.enabled = false;
-        return this.globalHud.showLoader();
+        this.setInteractionEnabled(false);
+        return this.globalHud.showLoader().then(() => this.lifecycle.emit('loaderShown', { scene: this._currentScene }));
     }
 
     /**
@@ -258,18 +1204,140 @@ export class BaseGame<S, A> extends Phaser.Game
     public async hideLoader(): Promise<void>
     {
         await this.globalHud.hideLoader();
-        this.interaction.enabled = true;
+        this.setInteractionEnabled(true);
+        this.lifecycle.emit('loaderHidden', { scene: this._currentScene });
     }
 
+    /** Pauses or resumes the game, as with pause() and resume(). */
     public setScenePaused(paused: boolean): void
     {
-        if (this._currentScene)
+        if (paused)
+        {
+            this.pause();
+        }
+        else
+        {
+            this.resume();
+        }
+    }
+
+    /** If the game is paused, whether by pause() or automatically. */
+    public get isPaused(): boolean
+    {
+        return this.pauseSources.size > 0;
+    }
+
+    /**
+     * Pauses the current scene and any overlays - their timers, tweens, animations, updates and interaction - along
+     * with all audio, until resume() is called. The HUD stays interactive so that it can show a pause screen, as do
+     * any overlays opened while paused (like a pause menu).
+     */
+    public pause(): void
+    {
+        this.setPaused('user', true);
+    }
+
+    /** Resumes everything paused by pause() or by automatic pausing. */
+    public resume(): void
+    {
+        this.setPaused('user', false);
+    }
+
+    /** Pauses or resumes automatically as the page is hidden/shown or loses/gains focus. */
+    private onAutoPause(paused: boolean): void
+    {
+        if (!this.autoPause && paused) return;
+        this.setPaused('auto', paused);
+    }
+
+    /**
+     * Adds or removes a reason for the game to be paused.
+     * @param resumeAll If resuming should clear all reasons - by default, an explicit resume overrides automatic pausing.
+     */
+    private setPaused(source: PauseSource, paused: boolean, resumeAll = source == 'user'): void
+    {
+        const wasPaused = this.isPaused;
+        if (paused)
+        {
+            this.pauseSources.add(source);
+        }
+        else if (resumeAll)
+        {
+            // an explicit resume overrides automatic pausing too
+            this.pauseSources.clear();
+        }
+        else
+        {
+            this.pauseSources.delete(source);
+        }
+        if (wasPaused == this.isPaused) return;
+
+        if (paused)
+        {
+            this.pauseRunning();
+            this.freezeInteraction();
+            this.events.emit(GAME_PAUSED, source == 'auto');
+            this.lifecycle.emit('paused', { auto: source == 'auto' });
+        }
+        else
         {
-            this._currentScene.time.paused = paused;
-            this.audioManager.setVOPaused(paused);
+            for (const scene of this.pausedScenes)
+            {
+                // skip anything that has since been removed, or paused by an overlay
+                if (scene.sys.isPaused() && !this.overlays.some(o => o.pausedScene === scene))
+                {
+                    this.scene.resume(scene);
+                }
+            }
+            this.pausedScenes = [];
+            this.unfreezeInteraction();
+            this.audioManager.resumeAll();
+            this.events.emit(GAME_RESUMED);
+            this.lifecycle.emit('resumed', {});
         }
     }
 
+    /** Pauses whatever scenes and audio are currently running, for while the game is paused. */
+    private pauseRunning(): void
+    {
+        const scenes = [this._currentScene, ...this.overlays.map(o => o.scene)];
+        for (const scene of scenes)
+        {
+            if (scene?.sys.isActive())
+            {
+                this.scene.pause(scene);
+                this.pausedScenes.push(scene);
+            }
+        }
+        this.audioManager.pauseAll();
+    }
+
+    /**
+     * Keeps the paused scene and overlays from being focused or used, on top of their input being paused with them.
+     * The HUD stays usable, as part of the focus baseline.
+     */
+    private freezeInteraction(): void
+    {
+        // a scene that started while paused has activated its own context on top of ours
+        this.unfreezeInteraction();
+        this.pauseContext = [];
+        this.interaction.activateContext(this.pauseContext);
+    }
+
+    /** Lets the scene and overlays that were paused be focused and used again. */
+    private unfreezeInteraction(): void
+    {
+        if (!this.pauseContext) return;
+        this.interaction.removeContext(this.pauseContext);
+        this.pauseContext = null;
+    }
+
+    /** Enables or disables all interaction, for while loading and transitioning. */
+    private setInteractionEnabled(enabled: boolean): void
+    {
+        this.interaction.enabled = enabled;
+    }
+
     public get width(): number
     {
         return this.renderer.width;
@@ -282,23 +1350,37 @@ export class BaseGame<S, A> extends Phaser.Game
 
     public resize(): void
     {
-        // assume game was not made for variable aspect ratios
-        const layoutWidth = this.designWidth;
-        const layoutHeight = this.designHeight;
-
         const width = document.documentElement.clientWidth;
         const height = document.documentElement.clientHeight;
-        const scale = Math.min(width / this.designWidth, height / this.designHeight);
+        const layout = this.layout = computeLayout(this.scaleConfig, this.designWidth, this.designHeight, width, height);
+        const { scale } = layout;
         // -- PHASER -- //
-        this.canvas.style.width = `${layoutWidth * scale}px`;
-        this.canvas.style.height = `${layoutHeight * scale}px`;
+        if (this.scale.width != layout.width || this.scale.height != layout.height)
+        {
+            // expanding, so the game itself changes size - cameras follow along
+            this.scale.resize(layout.width, layout.height);
+        }
+        // when covering, the canvas is larger than the window and centered, so the edges are cropped - then
+        // shifted so that it's the visible part that is centered, if that isn't the middle of the game
+        const { visible } = layout;
+        const offsetX = (layout.width / 2 - (visible.x + visible.width / 2)) * scale;
+        const offsetY = (layout.height / 2 - (visible.y + visible.height / 2)) * scale;
+        this.canvas.style.width = `${layout.width * scale}px`;
+        this.canvas.style.height = `${layout.height * scale}px`;
+        this.canvas.style.translate = `${offsetX}px ${offsetY}px`;
         // -- INTERACTION -- //
-        this.uiDiv.style.width = `${layoutWidth}px`;
-        this.uiDiv.style.height = `${layoutHeight}px`;
-        this.uiDiv.style.transform = `translate(-50%, -50%) scale(${scale})`;
+        // sized, scaled and shifted the same as the canvas, so that it stays lined up with it in every mode
+        this.uiDiv.style.width = `${layout.width}px`;
+        this.uiDiv.style.height = `${layout.height}px`;
+        this.uiDiv.style.transform = `translate(${offsetX}px, ${offsetY}px) translate(-50%, -50%) scale(${scale})`;
 
-        this.globalHud.resize(layoutWidth, layoutHeight, scale);
+        this.globalHud.resize(layout.width, layout.height, scale, layout);
 
-        this._currentScene?.resize();
+        this._currentScene?.resize(layout);
+        for (const overlay of this.overlays)
+        {
+            overlay.scene.resize(layout);
+        }
+        this.lifecycle.emit('resized', layout);
     }
 }
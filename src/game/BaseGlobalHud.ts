@@ -2,6 +2,8 @@ import Phaser from 'phaser';
 import { BaseGame } from './BaseGame';
 import { ExtPromise } from '@fablevision/utils';
 import { Interactive } from '@fablevision/interaction';
+import type { LoadReport } from '../scene';
+import type { LayoutInfo } from './Layout';
 
 export class BaseGlobalHud<H> extends Phaser.Scene
 {
@@ -22,7 +24,11 @@ export class BaseGlobalHud<H> extends Phaser.Scene
         this.game.resize();
     }
 
-    public resize(width: number, height: number, scale: number)
+    /**
+     * Called when the game is resized, with the size of the game and its scale in the window.
+     * `layout` has the visible area and the safe area to keep the HUD within.
+     */
+    public resize(width: number, height: number, scale: number, _layout: LayoutInfo)
     {
     }
 
@@ -59,4 +65,21 @@ export class BaseGlobalHud<H> extends Phaser.Scene
     {
         return Promise.resolve();
     }
+
+    /**
+     * Called when the game's locale changes. Override to re-render any text.
+     */
+    public onLocaleChanged(_locale: string): void
+    {
+        // to be overridden
+    }
+
+    /**
+     * Shows an error for assets that failed to load, with the option to try again.
+     * Resolves with true if the load should be retried, or false to continue without the failed assets.
+     */
+    public showLoadError(_report: LoadReport): Promise<boolean>
+    {
+        return Promise.resolve(false);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+import type { HistoryEntry } from './BaseGame';
+
+export interface DevMenuOptions
+{
+    /** KeyboardEvent.code of the key that shows and hides the menu. Defaults to 'Backquote'. */
+    toggleKey?: string;
+    /** KeyboardEvent.code of the key that restarts the current scene with the same args. Defaults to 'F8'. */
+    reloadKey?: string;
+}
+
+/** What the menu needs from the game. */
+export interface DevMenuTarget<A>
+{
+    getSceneIds(): string[];
+    readonly currentEntry: HistoryEntry<A>|null;
+    goToScene(id: string, args?: A): Promise<void>;
+    reloadScene(): Promise<void>;
+}
+
+/**
+ * An on-screen menu for jumping to any scene with any args, for development and QA. It is plain HTML on top
+ * of the game, so that it doesn't depend on anything the game has loaded.
+ */
+export class DevMenu<A>
+{
+    private target: DevMenuTarget<A>;
+    private options: Required<DevMenuOptions>;
+    private root: HTMLDivElement;
+    private sceneSelect: HTMLSelectElement;
+    private argsInput: HTMLTextAreaElement;
+    private error: HTMLDivElement;
+    /** Args last used for each scene, so that switching between scenes in the menu doesn't lose edits. */
+    private lastArgs: Map<string, string>;
+    private onKeyDown: (e: KeyboardEvent) => void;
+
+    constructor(target: DevMenuTarget<A>, options: DevMenuOptions = {})
+    {
+        this.target = target;
+        this.options = { toggleKey: 'Backquote', reloadKey: 'F8', ...options };
+        this.lastArgs = new Map();
+
+        this.root = document.createElement('div');
+        this.root.style.cssText = 'position:fixed;top:8px;left:8px;z-index:100000;display:none;padding:8px;' +
+            'background:rgba(0,0,0,0.85);color:#fff;font:12px monospace;width:320px;';
+        this.sceneSelect = document.createElement('select');
+        this.sceneSelect.style.width = '100%';
+        this.sceneSelect.onchange = () => this.showArgs();
+        this.argsInput = document.createElement('textarea');
+        this.argsInput.style.cssText = 'width:100%;height:80px;box-sizing:border-box;font:12px monospace;';
+        this.argsInput.oninput = () => this.lastArgs.set(this.sceneSelect.value, this.argsInput.value);
+        this.error = document.createElement('div');
+        this.error.style.color = '#f66';
+        const go = document.createElement('button');
+        go.textContent = 'Go';
+        go.onclick = () => this.go();
+        const reload = document.createElement('button');
+        reload.textContent = `Reload scene (${this.options.reloadKey})`;
+        reload.onclick = () => this.target.reloadScene();
+        this.root.append(this.sceneSelect, this.argsInput, this.error, go, reload);
+        // keep typing in the menu from reaching the game's keyboard handling
+        this.root.addEventListener('keydown', e => e.stopPropagation());
+        document.body.appendChild(this.root);
+
+        this.onKeyDown = (e: KeyboardEvent) =>
+        {
+            if (e.code == this.options.toggleKey)
+            {
+                e.preventDefault();
+                this.toggle();
+            }
+            else if (e.code == this.options.reloadKey)
+            {
+                e.preventDefault();
+                this.target.reloadScene();
+            }
+        };
+        window.addEventListener('keydown', this.onKeyDown);
+    }
+
+    public get visible(): boolean
+    {
+        return this.root.style.display != 'none';
+    }
+
+    public show(): void
+    {
+        // scenes may be registered after the menu was created, so list them fresh
+        this.sceneSelect.innerHTML = '';
+        for (const id of this.target.getSceneIds())
+        {
+            const option = document.createElement('option');
+            option.value = option.textContent = id;
+            this.sceneSelect.appendChild(option);
+        }
+        const current = this.target.currentEntry;
+        if (current)
+        {
+            this.sceneSelect.value = current.id;
+            this.lastArgs.set(current.id, JSON.stringify(current.args ?? {}, null, 2));
+        }
+        this.showArgs();
+        this.root.style.display = '';
+    }
+
+    public hide(): void
+    {
+        this.root.style.display = 'none';
+    }
+
+    public toggle(): void
+    {
+        if (this.visible)
+        {
+            this.hide();
+        }
+        else
+        {
+            this.show();
+        }
+    }
+
+    public destroy(): void
+    {
+        window.removeEventListener('keydown', this.onKeyDown);
+        this.root.remove();
+    }
+
+    private showArgs(): void
+    {
+        this.argsInput.value = this.lastArgs.get(this.sceneSelect.value) ?? '{}';
+        this.error.textContent = '';
+    }
+
+    private go(): void
+    {
+        const id = this.sceneSelect.value;
+        if (!id) return;
+        let args: A;
+        try
+        {
+            args = JSON.parse(this.argsInput.value || '{}');
+        }
+        catch (e)
+        {
+            this.error.textContent = `Args aren't valid JSON: ${(e as Error).message}`;
+            return;
+        }
+        this.hide();
+        this.target.goToScene(id, args);
+    }
+}
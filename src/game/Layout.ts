@@ -0,0 +1,101 @@
+import Phaser from 'phaser';
+
+/**
+ * How the game is fit to the window:
+ * fit - the whole design size is shown, letterboxed to keep its aspect ratio
+ * cover - the window is filled, cropping the edges of the design size but always showing the safe area
+ * expand - the game's size grows past the design size to fill the window, within aspect ratio limits
+ */
+export type ScaleMode = 'fit'|'cover'|'expand';
+
+export interface LayoutRect
+{
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ScaleConfig
+{
+    mode: ScaleMode;
+    /** For cover, the part of the design size that must always be visible. Defaults to the whole design size. */
+    safeArea?: LayoutRect;
+    /** For expand, the narrowest aspect ratio (width / height) to expand to. Defaults to the design aspect ratio. */
+    minAspect?: number;
+    /** For expand, the widest aspect ratio (width / height) to expand to. Defaults to the design aspect ratio. */
+    maxAspect?: number;
+}
+
+/** The layout of the game in the window, passed to the HUD and scenes when resizing. */
+export interface LayoutInfo
+{
+    mode: ScaleMode;
+    /** Size of the game, in game pixels. Only differs from the design size when expanding. */
+    width: number;
+    height: number;
+    /** Size of a game pixel in CSS pixels. */
+    scale: number;
+    /** Part of the game that is on screen. Smaller than the game only when covering. */
+    visible: LayoutRect;
+    /**
+     * Part of the game where important content and UI should go, as it is always on screen. This is the design
+     * size (centered, when expanding), or the configured safe area when covering.
+     */
+    safeArea: LayoutRect;
+}
+
+/**
+ * Works out the layout of the game for a window size.
+ */
+export function computeLayout(config: ScaleConfig, designWidth: number, designHeight: number, windowWidth: number, windowHeight: number): LayoutInfo
+{
+    const design = { x: 0, y: 0, width: designWidth, height: designHeight };
+    switch (config.mode)
+    {
+        case 'cover':
+        {
+            const safe = config.safeArea || design;
+            // as large as needed to cover the window, but no larger than would crop the safe area
+            const scale = Math.min(
+                Math.max(windowWidth / designWidth, windowHeight / designHeight),
+                windowWidth / safe.width,
+                windowHeight / safe.height,
+            );
+            const visibleWidth = Math.min(designWidth, windowWidth / scale);
+            const visibleHeight = Math.min(designHeight, windowHeight / scale);
+            // centered on the safe area, so that an off-center one isn't cropped, but kept within the design size
+            const visible = {
+                x: Phaser.Math.Clamp(safe.x + (safe.width - visibleWidth) / 2, 0, designWidth - visibleWidth),
+                y: Phaser.Math.Clamp(safe.y + (safe.height - visibleHeight) / 2, 0, designHeight - visibleHeight),
+                width: visibleWidth,
+                height: visibleHeight,
+            };
+            return { mode: 'cover', width: designWidth, height: designHeight, scale, visible, safeArea: { ...safe } };
+        }
+        case 'expand':
+        {
+            const designAspect = designWidth / designHeight;
+            const aspect = Phaser.Math.Clamp(
+                windowWidth / windowHeight,
+                config.minAspect ?? designAspect,
+                config.maxAspect ?? designAspect,
+            );
+            const width = aspect > designAspect ? Math.round(designHeight * aspect) : designWidth;
+            const height = aspect > designAspect ? designHeight : Math.round(designWidth / aspect);
+            const scale = Math.min(windowWidth / width, windowHeight / height);
+            const safeArea = {
+                x: (width - designWidth) / 2,
+                y: (height - designHeight) / 2,
+                width: designWidth,
+                height: designHeight,
+            };
+            return { mode: 'expand', width, height, scale, visible: { x: 0, y: 0, width, height }, safeArea };
+        }
+        default:
+        {
+            const scale = Math.min(windowWidth / designWidth, windowHeight / designHeight);
+            return { mode: 'fit', width: designWidth, height: designHeight, scale, visible: design, safeArea: { ...design } };
+        }
+    }
+}
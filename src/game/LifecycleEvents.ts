@@ -0,0 +1,110 @@
+import Phaser from 'phaser';
+import type { AudioSettings } from '../audio';
+import type { BaseScene, DialogueLineEvent } from '../scene';
+import type { HistoryEntry } from './BaseGame';
+import type { LayoutInfo } from './Layout';
+
+/** Sent before navigating to a scene. Calling cancel() stops the navigation. */
+export interface BeforeNavigateEvent<A>
+{
+    id: string;
+    args: A;
+    /** The entry being navigated away from, if any. */
+    from: HistoryEntry<A>|null;
+    cancel(): void;
+    readonly cancelled: boolean;
+}
+
+/** A scene at some point in its life. The id is null for scenes not started through navigation (like test states). */
+export interface SceneLifecycleEvent<S, A>
+{
+    id: string|null;
+    scene: BaseScene<S, A>;
+}
+
+/** Payloads of the game's lifecycle events, by event name. */
+export interface LifecycleEventMap<S, A>
+{
+    beforeNavigate: BeforeNavigateEvent<A>;
+    /** The scene has been created and its initialize() has finished, and it is about to load. */
+    sceneInitialized: SceneLifecycleEvent<S, A> & {args: A};
+    /** The scene has loaded, and is about to start. */
+    sceneLoaded: SceneLifecycleEvent<S, A> & {duration: number};
+    /** The scene has started, and any transition into it has finished. */
+    sceneStarted: SceneLifecycleEvent<S, A> & {args: A};
+    /** The scene is covered and about to be shut down. */
+    beforeSceneShutdown: SceneLifecycleEvent<S, A>;
+    /** The scene has been shut down and removed. */
+    sceneShutdown: {id: string|null};
+    loaderShown: {scene: BaseScene<S, A>|null};
+    loaderHidden: {scene: BaseScene<S, A>|null};
+    resized: LayoutInfo;
+    paused: {auto: boolean};
+    resumed: Record<string, never>;
+    sceneCompleted: {id: string};
+    localeChanged: {locale: string};
+    dialogueLineStart: DialogueLineEvent;
+    dialogueLineEnd: DialogueLineEvent;
+    audioSettingsChanged: AudioSettings;
+}
+
+export type LifecycleEventType = keyof LifecycleEventMap<any, any>;
+
+/**
+ * Typed events for everything that happens over the life of a game and its scenes, so that the HUD, analytics and
+ * game code can follow along without subclassing BaseGame. Available as `game.lifecycle`:
+ *
+ *     game.lifecycle.on('sceneStarted', ({ id, scene }) => console.log(`${id} started`));
+ */
+export class LifecycleEvents<S, A>
+{
+    private emitter: Phaser.Events.EventEmitter;
+
+    constructor()
+    {
+        this.emitter = new Phaser.Events.EventEmitter();
+    }
+
+    public on<K extends keyof LifecycleEventMap<S, A>>(type: K, listener: (event: LifecycleEventMap<S, A>[K]) => void, context?: unknown): this
+    {
+        this.emitter.on(type, listener, context);
+        return this;
+    }
+
+    public once<K extends keyof LifecycleEventMap<S, A>>(type: K, listener: (event: LifecycleEventMap<S, A>[K]) => void, context?: unknown): this
+    {
+        this.emitter.once(type, listener, context);
+        return this;
+    }
+
+    public off<K extends keyof LifecycleEventMap<S, A>>(type: K, listener?: (event: LifecycleEventMap<S, A>[K]) => void, context?: unknown): this
+    {
+        this.emitter.off(type, listener, context);
+        return this;
+    }
+
+    /** Sends an event. This is for the game to use - listeners should not emit events themselves. */
+    public emit<K extends keyof LifecycleEventMap<S, A>>(type: K, event: LifecycleEventMap<S, A>[K]): void
+    {
+        this.emitter.emit(type, event);
+    }
+
+    /** Asks listeners if navigating to a scene is ok. Returns false if any of them cancelled it. */
+    public beforeNavigate(id: string, args: A, from: HistoryEntry<A>|null): boolean
+    {
+        let cancelled = false;
+        this.emit('beforeNavigate', {
+            id,
+            args,
+            from,
+            cancel: () => cancelled = true,
+            get cancelled() { return cancelled; },
+        });
+        return !cancelled;
+    }
+
+    public removeAllListeners(): void
+    {
+        this.emitter.removeAllListeners();
+    }
+}
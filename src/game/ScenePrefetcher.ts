@@ -0,0 +1,229 @@
+import Phaser from 'phaser';
+import { LoaderScene, ManagedLoader } from '../scene';
+
+/** Queues up a scene's assets ahead of time. Scene classes can implement this as a static `prefetchAssets` method. */
+export type PrefetchAssets<S, A> = (loader: ManagedLoader, staticConfig: S, args: A) => void|Promise<void>;
+
+interface PrefetchRequest<S, A>
+{
+    id: string;
+    args: A;
+    staticConfig: S;
+    queueAssets: PrefetchAssets<S, A>;
+    loader: ManagedLoader;
+    /** Set if the request was cancelled, or if prefetching failed. */
+    cancelled: boolean;
+    /** Resolves when the request has finished loading, was cancelled or failed. Never rejects. */
+    done: Promise<void>|null;
+}
+
+/** Scene that exists only to own the loader used for prefetching. */
+class PrefetchScene extends Phaser.Scene
+{
+    public spine!: SpinePlugin;
+
+    constructor()
+    {
+        super({});
+    }
+}
+
+/**
+ * Loads the assets for scenes the user is likely to go to next, one scene at a time and with limited parallel
+ * downloads so that the current scene isn't slowed down. When one of those scenes is started, it can
+ * claim the prefetched assets so that they are unloaded with the scene instead of loaded again.
+ */
+export class ScenePrefetcher<S, A>
+{
+    private scene: PrefetchScene;
+    private requests: PrefetchRequest<S, A>[];
+    private current: PrefetchRequest<S, A>|null;
+    private paused: boolean;
+    /** Parallel downloads to use while the current scene is idle. */
+    private concurrency: number;
+    /** Parallel downloads to use when a scene is waiting on the prefetch. */
+    private fullConcurrency: number;
+
+    constructor(game: Phaser.Game, concurrency = 2)
+    {
+        this.scene = new PrefetchScene();
+        game.scene.add('__prefetch__', this.scene, true);
+        this.requests = [];
+        this.current = null;
+        this.paused = true;
+        this.concurrency = concurrency;
+        this.fullConcurrency = game.config.loaderMaxParallelDownloads;
+    }
+
+    /** If there is a prefetch for this scene, either queued or in progress or done. */
+    public has(id: string, args: A): boolean
+    {
+        return !!this.find(id, args);
+    }
+
+    /**
+     * Queues up prefetching for a scene. Does nothing if the scene is already being prefetched with the same args.
+     */
+    public prefetch(id: string, args: A, staticConfig: S, queueAssets: PrefetchAssets<S, A>): void
+    {
+        if (this.find(id, args)) return;
+        this.requests.push({
+            id,
+            args,
+            staticConfig,
+            queueAssets,
+            loader: new ManagedLoader(this.scene as LoaderScene),
+            cancelled: false,
+            done: null,
+        });
+        this.next();
+    }
+
+    /**
+     * Stops prefetching in the background - queued files stay queued, but no new downloads start.
+     * Used while the current scene is doing its own loading.
+     */
+    public pause(): void
+    {
+        this.paused = true;
+        // the loader doesn't exist until our scene has booted
+        if (this.scene.load)
+        {
+            this.scene.load.maxParallelDownloads = 0;
+        }
+    }
+
+    /** Resumes background prefetching. */
+    public resume(): void
+    {
+        this.paused = false;
+        if (this.scene.load)
+        {
+            this.scene.load.maxParallelDownloads = this.concurrency;
+        }
+        this.next();
+    }
+
+    /**
+     * Cancels prefetching of a scene (or all scenes if no id is given), unloading anything that was
+     * already loaded for it. With args, only the prefetch of the scene with those args is cancelled.
+     */
+    public cancel(id?: string, args?: A): void
+    {
+        const argString = JSON.stringify(args);
+        for (const request of this.requests.slice())
+        {
+            if (id === undefined || (request.id === id && (args === undefined || JSON.stringify(request.args) === argString)))
+            {
+                this.cancelRequest(request);
+            }
+        }
+    }
+
+    /**
+     * Hands over anything prefetched for a scene to that scene's loader, finishing the prefetch at full speed first
+     * if it is still in progress. Any other prefetches are cancelled, as they were for the previous scene.
+     */
+    public async claim(id: string, args: A, loader: ManagedLoader): Promise<void>
+    {
+        const request = this.find(id, args);
+        for (const other of this.requests.slice())
+        {
+            if (other !== request)
+            {
+                this.cancelRequest(other);
+            }
+        }
+        if (!request) return;
+
+        if (!request.done)
+        {
+            // it never got started, so there is nothing to hand over
+            this.remove(request);
+            return;
+        }
+        this.scene.load.maxParallelDownloads = this.fullConcurrency;
+        await request.done;
+        // if it failed, the scene loads everything itself
+        if (request.cancelled) return;
+        request.loader.transferTo(loader);
+        this.remove(request);
+    }
+
+    private find(id: string, args: A): PrefetchRequest<S, A>|undefined
+    {
+        const argString = JSON.stringify(args);
+        return this.requests.find(r => r.id === id && JSON.stringify(r.args) === argString);
+    }
+
+    private remove(request: PrefetchRequest<S, A>): void
+    {
+        const index = this.requests.indexOf(request);
+        if (index >= 0)
+        {
+            this.requests.splice(index, 1);
+        }
+    }
+
+    private cancelRequest(request: PrefetchRequest<S, A>): void
+    {
+        request.cancelled = true;
+        this.remove(request);
+        if (request === this.current)
+        {
+            // drop anything that hasn't started downloading, and if nothing is in progress, wrap up the load
+            const load = this.scene.load;
+            load.list.clear();
+            if (load.isLoading() && load.inflight.size === 0 && load.queue.size === 0)
+            {
+                load.loadComplete();
+            }
+        }
+        else
+        {
+            request.loader.unloadAll();
+        }
+    }
+
+    /** Starts the next prefetch, if we aren't busy. */
+    private next(): void
+    {
+        if (this.paused || this.current) return;
+        const request = this.requests.find(r => !r.done);
+        if (!request) return;
+
+        this.current = request;
+        request.done = (async () =>
+        {
+            try
+            {
+                await request.queueAssets(request.loader, request.staticConfig, request.args);
+                if (!request.cancelled)
+                {
+                    await request.loader.load();
+                }
+            }
+            catch (e)
+            {
+                // like a manifest that couldn't be fetched - treat it as cancelled, and let the scene load normally
+                console.error(`Unable to prefetch scene '${request.id}': `, e);
+                request.cancelled = true;
+                this.remove(request);
+            }
+            finally
+            {
+                if (request.cancelled)
+                {
+                    this.scene.load.list.clear();
+                    request.loader.unloadAll();
+                }
+                this.current = null;
+                if (!this.paused)
+                {
+                    this.scene.load.maxParallelDownloads = this.concurrency;
+                }
+                this.next();
+            }
+        })();
+    }
+}
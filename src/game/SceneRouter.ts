@@ -0,0 +1,265 @@
+/** A scene id and the args to start it with, as read from a url. */
+export interface SceneRoute<A>
+{
+    id: string;
+    args: A;
+}
+
+/**
+ * Converts scene args to and from url parameters. Url parameters are always strings, so games with
+ * typed args (numbers, booleans) should provide a serializer that converts them back.
+ */
+export interface ArgsSerializer<A>
+{
+    /**
+     * Names of the url parameters that are args. QueryRouter leaves any other parameters (like a language, or
+     * ones added by an LMS) alone - without this, every parameter on a scene's url is taken to be an arg.
+     */
+    keys?: string[];
+    stringify(args: A): Record<string, string>;
+    parse(params: Record<string, string>): A;
+}
+
+/** Converts between a scene and its url. */
+export interface SceneRouter<A>
+{
+    /** Gets the url (relative to the current page) for a scene. */
+    toUrl(id: string, args: A): string;
+    /** Gets the scene for a url, or null if the url doesn't point to a scene. */
+    fromUrl(location: Location|URL): SceneRoute<A>|null;
+}
+
+export type ArgType = 'string'|'number'|'boolean';
+
+/**
+ * Serializer that writes any defined args with String() and leaves everything as strings when parsing.
+ * @param keys The args that can be in urls, if the url has other parameters that aren't args.
+ */
+export function stringArgsSerializer<A>(keys?: (keyof A & string)[]): ArgsSerializer<A>
+{
+    return {
+        keys,
+        stringify(args: A): Record<string, string>
+        {
+            const out: Record<string, string> = {};
+            for (const key in args)
+            {
+                const value = args[key];
+                if (value !== undefined && value !== null && (!keys || keys.includes(key)))
+                {
+                    out[key] = String(value);
+                }
+            }
+            return out;
+        },
+        parse(params: Record<string, string>): A
+        {
+            return pick(params, keys) as any;
+        },
+    };
+}
+
+/**
+ * Serializer that converts args to the types listed in a schema when parsing. Args not in the schema are ignored.
+ * Example:
+ *
+ *     typedArgsSerializer<{level?: number, hard?: boolean}>({ level: 'number', hard: 'boolean' });
+ */
+export function typedArgsSerializer<A>(schema: {[K in keyof A]-?: ArgType}): ArgsSerializer<A>
+{
+    return {
+        keys: Object.keys(schema),
+        stringify(args: A): Record<string, string>
+        {
+            const out: Record<string, string> = {};
+            for (const key in schema)
+            {
+                const value = args[key];
+                if (value !== undefined && value !== null)
+                {
+                    out[key] = String(value);
+                }
+            }
+            return out;
+        },
+        parse(params: Record<string, string>): A
+        {
+            const out: any = {};
+            for (const key in schema)
+            {
+                if (!(key in params)) continue;
+                const value = params[key];
+                switch (schema[key])
+                {
+                    case 'number':
+                    {
+                        const num = parseFloat(value);
+                        if (!isNaN(num))
+                        {
+                            out[key] = num;
+                        }
+                        break;
+                    }
+                    case 'boolean':
+                        out[key] = value === 'true' || value === '1' || value === '';
+                        break;
+                    default:
+                        out[key] = value;
+                }
+            }
+            return out;
+        },
+    };
+}
+
+/**
+ * Serializer for when the types of args aren't known ahead of time (like for development tools) - when parsing,
+ * values that look like numbers or booleans are converted to them.
+ * @param keys The args that can be in urls, if the url has other parameters that aren't args.
+ */
+export function inferredArgsSerializer<A>(keys?: (keyof A & string)[]): ArgsSerializer<A>
+{
+    return {
+        keys,
+        stringify: stringArgsSerializer<A>(keys).stringify,
+        parse(allParams: Record<string, string>): A
+        {
+            const params = pick(allParams, keys);
+            const out: any = {};
+            for (const key in params)
+            {
+                const value = params[key];
+                if (value === 'true' || value === 'false')
+                {
+                    out[key] = value === 'true';
+                }
+                else if (value.trim() !== '' && !isNaN(Number(value)))
+                {
+                    out[key] = Number(value);
+                }
+                else
+                {
+                    out[key] = value;
+                }
+            }
+            return out;
+        },
+    };
+}
+
+/** Copies the listed keys of a record, or all of them if there isn't a list. */
+function pick(params: Record<string, string>, keys?: string[]): Record<string, string>
+{
+    const out: Record<string, string> = {};
+    for (const key in params)
+    {
+        if (!keys || keys.includes(key))
+        {
+            out[key] = params[key];
+        }
+    }
+    return out;
+}
+
+function paramsToRecord(params: URLSearchParams, include: (key: string) => boolean = () => true): Record<string, string>
+{
+    const out: Record<string, string> = {};
+    params.forEach((value, key) =>
+    {
+        if (include(key))
+        {
+            out[key] = value;
+        }
+    });
+    return out;
+}
+
+/**
+ * Stores the scene in the query string, like `index.html?scene=map&level=2`. Any hash is left untouched, as are
+ * query parameters that aren't args - which needs a serializer that lists its `keys`, otherwise every
+ * parameter is taken to be an arg. An arg can't have the same name as the scene parameter.
+ */
+export class QueryRouter<A> implements SceneRouter<A>
+{
+    private sceneParam: string;
+    private serializer: ArgsSerializer<A>;
+
+    constructor(opts: {sceneParam?: string, serializer?: ArgsSerializer<A>} = {})
+    {
+        this.sceneParam = opts.sceneParam || 'scene';
+        this.serializer = opts.serializer || stringArgsSerializer();
+    }
+
+    public toUrl(id: string, args: A): string
+    {
+        const params = new URLSearchParams(location.search);
+        // drop the args of the scene currently in the url, but keep anything else the page was given
+        if (params.has(this.sceneParam))
+        {
+            for (const key of Array.from(params.keys()))
+            {
+                if (this.isArg(key))
+                {
+                    params.delete(key);
+                }
+            }
+        }
+        params.set(this.sceneParam, id);
+        const argParams = this.serializer.stringify(args);
+        for (const key in argParams)
+        {
+            if (key === this.sceneParam)
+            {
+                console.warn(`Scene arg '${key}' has the same name as the scene parameter, so it can't be put in the url`);
+                continue;
+            }
+            params.set(key, argParams[key]);
+        }
+        return `${location.pathname}?${params.toString()}${location.hash}`;
+    }
+
+    public fromUrl(url: Location|URL): SceneRoute<A>|null
+    {
+        const params = new URLSearchParams(url.search);
+        const id = params.get(this.sceneParam);
+        if (!id) return null;
+        return { id, args: this.serializer.parse(paramsToRecord(params, key => this.isArg(key))) };
+    }
+
+    /** If a url parameter is one of the scene's args. */
+    private isArg(key: string): boolean
+    {
+        const keys = this.serializer.keys;
+        return key !== this.sceneParam && (!keys || keys.includes(key));
+    }
+}
+
+/**
+ * Stores the scene in the hash, like `index.html#map?level=2`. Any query string is left untouched.
+ */
+export class HashRouter<A> implements SceneRouter<A>
+{
+    private serializer: ArgsSerializer<A>;
+
+    constructor(opts: {serializer?: ArgsSerializer<A>} = {})
+    {
+        this.serializer = opts.serializer || stringArgsSerializer();
+    }
+
+    public toUrl(id: string, args: A): string
+    {
+        const params = new URLSearchParams(this.serializer.stringify(args)).toString();
+        return `${location.pathname}${location.search}#${encodeURIComponent(id)}${params ? '?' + params : ''}`;
+    }
+
+    public fromUrl(url: Location|URL): SceneRoute<A>|null
+    {
+        const hash = url.hash.replace(/^#/, '');
+        if (!hash) return null;
+        const queryStart = hash.indexOf('?');
+        const id = decodeURIComponent(queryStart >= 0 ? hash.substring(0, queryStart) : hash);
+        if (!id) return null;
+        const params = new URLSearchParams(queryStart >= 0 ? hash.substring(queryStart + 1) : '');
+        return { id, args: this.serializer.parse(paramsToRecord(params)) };
+    }
+}
@@ -0,0 +1,184 @@
+import Phaser from 'phaser';
+
+/**
+ * A visual transition between scenes, used instead of the global hud's loader when the next scene can be
+ * shown without waiting on a load.
+ */
+export interface SceneTransition
+{
+    /** Covers the outgoing scene. Resolves when the scene is fully covered and can be removed. */
+    cover(scene: Phaser.Scene): Promise<void>;
+    /**
+     * Reveals the incoming scene. This must synchronously put the scene into a covered state before
+     * animating, as the scene is started immediately after this is called.
+     */
+    reveal(scene: Phaser.Scene): Promise<void>;
+}
+
+/**
+ * Transition to use for a navigation - either the name of a transition registered on the game, or a transition
+ * instance. `false` forces the loader to be used.
+ */
+export type TransitionConfig = string|SceneTransition|false;
+
+export type SlideDirection = 'left'|'right'|'up'|'down';
+
+/** Fades to a solid color and back. */
+export class FadeTransition implements SceneTransition
+{
+    private duration: number;
+    private color: Phaser.Display.Color;
+
+    constructor(opts: {duration?: number, color?: number} = {})
+    {
+        this.duration = opts.duration ?? 400;
+        this.color = Phaser.Display.Color.IntegerToColor(opts.color ?? 0x000000);
+    }
+
+    public cover(scene: Phaser.Scene): Promise<void>
+    {
+        const camera = scene.cameras.main;
+        return new Promise(resolve =>
+        {
+            camera.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => resolve());
+            camera.fadeOut(this.duration, this.color.red, this.color.green, this.color.blue);
+        });
+    }
+
+    public reveal(scene: Phaser.Scene): Promise<void>
+    {
+        const camera = scene.cameras.main;
+        return new Promise(resolve =>
+        {
+            camera.once(Phaser.Cameras.Scene2D.Events.FADE_IN_COMPLETE, () => resolve());
+            camera.fadeIn(this.duration, this.color.red, this.color.green, this.color.blue);
+        });
+    }
+}
+
+/** Slides the outgoing scene off screen and the incoming scene on, by scrolling the camera. */
+export class SlideTransition implements SceneTransition
+{
+    private duration: number;
+    private direction: SlideDirection;
+
+    constructor(opts: {duration?: number, direction?: SlideDirection} = {})
+    {
+        this.duration = opts.duration ?? 500;
+        this.direction = opts.direction ?? 'left';
+    }
+
+    /** How far the camera must scroll to move the content a full screen in the slide direction. */
+    private getOffset(camera: Phaser.Cameras.Scene2D.Camera): {x: number, y: number}
+    {
+        switch (this.direction)
+        {
+            case 'left': return { x: camera.width, y: 0 };
+            case 'right': return { x: -camera.width, y: 0 };
+            case 'up': return { x: 0, y: camera.height };
+            case 'down': return { x: 0, y: -camera.height };
+        }
+    }
+
+    public cover(scene: Phaser.Scene): Promise<void>
+    {
+        const camera = scene.cameras.main;
+        const offset = this.getOffset(camera);
+        return new Promise(resolve =>
+        {
+            scene.tweens.add({
+                targets: camera,
+                scrollX: camera.scrollX + offset.x,
+                scrollY: camera.scrollY + offset.y,
+                duration: this.duration,
+                ease: 'Sine.easeIn',
+                onComplete: () => resolve(),
+            });
+        });
+    }
+
+    public reveal(scene: Phaser.Scene): Promise<void>
+    {
+        const camera = scene.cameras.main;
+        const offset = this.getOffset(camera);
+        const targetX = camera.scrollX;
+        const targetY = camera.scrollY;
+        camera.setScroll(targetX - offset.x, targetY - offset.y);
+        return new Promise(resolve =>
+        {
+            scene.tweens.add({
+                targets: camera,
+                scrollX: targetX,
+                scrollY: targetY,
+                duration: this.duration,
+                ease: 'Sine.easeOut',
+                onComplete: () => resolve(),
+            });
+        });
+    }
+}
+
+/** Wipes the scene away (and the next one in) with a mask that sweeps across the screen. */
+export class WipeTransition implements SceneTransition
+{
+    private duration: number;
+    private direction: SlideDirection;
+
+    constructor(opts: {duration?: number, direction?: SlideDirection} = {})
+    {
+        this.duration = opts.duration ?? 500;
+        this.direction = opts.direction ?? 'left';
+    }
+
+    /**
+     * Tweens the visible portion of the scene from one fraction to another, resolving with the
+     * mask graphics when done.
+     */
+    private tweenMask(scene: Phaser.Scene, from: number, to: number): Promise<Phaser.GameObjects.Graphics>
+    {
+        const camera = scene.cameras.main;
+        const graphics = scene.make.graphics({}, false);
+        const draw = (visible: number) =>
+        {
+            const { width, height } = camera;
+            graphics.clear();
+            graphics.fillStyle(0xffffff);
+            switch (this.direction)
+            {
+                // the visible part is on the side the wipe is moving towards
+                case 'left': graphics.fillRect(0, 0, width * visible, height); break;
+                case 'right': graphics.fillRect(width * (1 - visible), 0, width * visible, height); break;
+                case 'up': graphics.fillRect(0, 0, width, height * visible); break;
+                case 'down': graphics.fillRect(0, height * (1 - visible), width, height * visible); break;
+            }
+        };
+        draw(from);
+        camera.setMask(graphics.createGeometryMask(), true);
+        const progress = { visible: from };
+        return new Promise(resolve =>
+        {
+            scene.tweens.add({
+                targets: progress,
+                visible: to,
+                duration: this.duration,
+                ease: 'Linear',
+                onUpdate: () => draw(progress.visible),
+                onComplete: () => resolve(graphics),
+            });
+        });
+    }
+
+    public async cover(scene: Phaser.Scene): Promise<void>
+    {
+        const graphics = await this.tweenMask(scene, 1, 0);
+        // the scene stays masked until it is removed
+        scene.events.once(Phaser.Scenes.Events.DESTROY, () => graphics.destroy());
+    }
+
+    public async reveal(scene: Phaser.Scene): Promise<void>
+    {
+        const graphics = await this.tweenMask(scene, 0, 1);
+        scene.cameras.main.clearMask(true);
+        graphics.destroy();
+    }
+}
@@ -1,19 +1,68 @@
 import { BaseGame, SceneConstructor } from './BaseGame';
+import { DevMenu, DevMenuOptions } from './DevMenu';
+import { inferredArgsSerializer, QueryRouter } from './SceneRouter';
 
 /**
- * This class does some special things to quickly load a single scene.
- * Example args generation:
+ * This class does some special things to quickly load a single scene, and to jump between scenes during development.
+ * The game's getStaticConfig(), getSceneConstructor() and getSceneIds() should be implemented, then:
+ *
+ *     // index.html?scene=map&level=2 starts the map scene with { level: 2 }
+ *     game.startFromQuery('title');
+ *     game.enableDevMenu();
+ *
+ * A single scene class can also be loaded directly, without being registered:
  *
- *     const urlParams = new URLSearchParams(location.search);
- *     const args = {
- *         level: urlParams.has('level') ? parseInt(urlParams.get('level')!, 10) : undefined,
- *     };
  *     new TestGame().loadTestState(TestState, {}, args);
  */
 export class TestGame<S, A> extends BaseGame<S, A>
 {
+    public devMenu: DevMenu<A>|null = null;
+
     public loadTestState(state: SceneConstructor<S, A>, staticConfig: S, args: A):void
     {
         this.loadAndStart(Promise.resolve(state), staticConfig, args);
     }
+
+    /**
+     * Starts the scene given in the url's query string, like `?scene=map&level=2`. Args are read with the game's
+     * router if it has one, otherwise numbers and booleans are converted from strings automatically.
+     * If the url doesn't give a known scene, the default scene is started, or the dev menu is shown if there isn't one.
+     */
+    public async startFromQuery(defaultId?: string, defaultArgs?: A, sceneParam = 'scene'): Promise<void>
+    {
+        const router = this.router ?? new QueryRouter<A>({ sceneParam, serializer: inferredArgsSerializer() });
+        const route = router.fromUrl(window.location);
+        if (route && this.getStaticConfig(route.id))
+        {
+            return this.goToSceneWithArgs(route.id, route.args, 'replace');
+        }
+        if (route)
+        {
+            console.error('Unable to start unknown scene from url: ', route.id);
+        }
+        if (defaultId)
+        {
+            return this.goToSceneWithArgs(defaultId, defaultArgs ?? {} as any, 'replace');
+        }
+        this.enableDevMenu();
+        this.devMenu!.show();
+    }
+
+    /**
+     * Adds the dev menu, which lists every scene from getSceneIds() to go to with editable args. It is toggled
+     * with a hotkey, and another hotkey restarts the current scene.
+     */
+    public enableDevMenu(options?: DevMenuOptions): void
+    {
+        if (this.devMenu) return;
+        this.devMenu = new DevMenu(this, options);
+    }
+
+    /** Restarts the current scene with the same args, without adding to the history. */
+    public reloadScene(): Promise<void>
+    {
+        const entry = this.currentEntry;
+        if (!entry) return Promise.resolve();
+        return this.replaceScene(entry.id, entry.args);
+    }
 }
\ No newline at end of file
@@ -1,3 +1,9 @@
 export * from './BaseGame';
 export * from './TestGame';
-export * from './BaseGlobalHud';
\ No newline at end of file
+export * from './BaseGlobalHud';
+export * from './SceneRouter';
+export * from './SceneTransition';
+export * from './ScenePrefetcher';
+export * from './Layout';
+export * from './DevMenu';
+export * from './LifecycleEvents';
\ No newline at end of file
@@ -3,7 +3,12 @@
 
 export * from './scene';
 export * from './game';
-export type { Sound } from './audio';
+export type { Sound, AudioChannel, AudioSettings, DuckingConfig } from './audio';
+export { AUDIO_SETTINGS_CHANGED, createSpriteSounds, getSpriteMarker, playSound } from './audio';
+export * from './storage';
+export * from './analytics';
+export * from './scorm';
+export * from './localization';
 
 export {
     InteractionManager, Interactive, DragStrategy, DragType, complex, drag, StandaloneGroup,
@@ -0,0 +1,77 @@
+/** A value that can differ by locale - either one value for all locales, or values by locale. */
+export type Localized<T> = T|{[locale: string]: T};
+
+/** Translated strings by key. */
+export interface StringTable
+{
+    [key: string]: string;
+}
+
+/** Emitted on the game's events with the new locale when BaseGame.setLocale() changes it. */
+export const LOCALE_CHANGED = 'localechanged';
+
+/**
+ * Looks up strings and localized content for the current locale, falling back to a default locale
+ * for anything that hasn't been translated.
+ */
+export class Localization
+{
+    /** The current locale. Use BaseGame.setLocale() to change it, so that the game updates. */
+    public locale: string;
+    public fallbackLocale: string;
+    private tables: {[locale: string]: StringTable};
+
+    constructor(locale = 'en', fallbackLocale = locale, strings: {[locale: string]: StringTable} = {})
+    {
+        this.locale = locale;
+        this.fallbackLocale = fallbackLocale;
+        this.tables = {};
+        for (const loc in strings)
+        {
+            this.addStrings(loc, strings[loc]);
+        }
+    }
+
+    /** Adds strings for a locale, replacing any with the same keys. */
+    public addStrings(locale: string, strings: StringTable): void
+    {
+        this.tables[locale] = Object.assign(this.tables[locale] || {}, strings);
+    }
+
+    public has(key: string): boolean
+    {
+        return this.tables[this.locale]?.[key] !== undefined || this.tables[this.fallbackLocale]?.[key] !== undefined;
+    }
+
+    /**
+     * Gets the string for a key in the current locale. `{name}` placeholders are replaced with params.
+     * Missing strings come back as the key, so that they are easy to spot.
+     */
+    public t(key: string, params?: {[name: string]: string|number}): string
+    {
+        let text = this.tables[this.locale]?.[key] ?? this.tables[this.fallbackLocale]?.[key];
+        if (text === undefined)
+        {
+            console.warn(`Missing string '${key}' for locale ${this.locale}`);
+            text = key;
+        }
+        if (params)
+        {
+            text = text.replace(/\{(\w+)\}/g, (match, name) => params[name] !== undefined ? String(params[name]) : match);
+        }
+        return text;
+    }
+
+    /** If a value has versions by locale, as opposed to one value for all locales. */
+    public isLocalized<T>(value: Localized<T>|undefined): value is {[locale: string]: T}
+    {
+        return !!value && typeof value == 'object' && !Array.isArray(value);
+    }
+
+    /** Gets the version of a value for the current locale (or the fallback locale). */
+    public resolve<T>(value: Localized<T>|undefined): T|undefined
+    {
+        if (!this.isLocalized(value)) return value as T|undefined;
+        return value[this.locale] ?? value[this.fallbackLocale];
+    }
+}
@@ -0,0 +1 @@
+export * from './Localization';
\ No newline at end of file
@@ -0,0 +1,39 @@
+import type { AudioFileData } from './ManagedLoader';
+
+/** Asset entries that a manifest can hold, one for each ManagedLoader method. */
+export type ManifestEntry =
+    { type: 'json', key: string, url: string } |
+    { type: 'atlas', key: string, url: string } |
+    { type: 'spritesheet', key: string, url: string, frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig } |
+    { type: 'spine', key: string, skeleton: string, atlas: string, premultipliedAlpha?: boolean } |
+    { type: 'multiatlas', key: string, url: string, baseUrl?: string } |
+    { type: 'image', key: string, url: string } |
+    { type: 'audio', key: string, urls: string[], volume?: number, loop?: boolean } |
+    { type: 'bitmapFont', key: string, textureUrl: string, fontDataUrl: string } |
+    { type: 'video', key: string, urls: string|string[], noAudio?: boolean } |
+    { type: 'tilemap', key: string, url: string } |
+    { type: 'svg', key: string, url: string, svgConfig?: Phaser.Types.Loader.FileTypes.SVGSizeConfig } |
+    { type: 'glsl', key: string, url: string, shaderType?: string } |
+    { type: 'text', key: string, url: string } |
+    { type: 'xml', key: string, url: string } |
+    { type: 'audioSprite', key: string, jsonUrl: string, urls: string[], volume?: number } |
+    { type: 'webfont', key: string, url: string, descriptors?: FontFaceDescriptors } |
+    {
+        type: 'dialogue',
+        /** Dictionary of dialogue to load, or a url to a json file of it. */
+        data: string|{[name: string]: AudioFileData},
+        /** Keywords to exclude dialogue by, as in ManagedLoader.preloadAudioObject(). */
+        exclude?: string[],
+    };
+
+/**
+ * A declarative list of a scene's assets, for ManagedLoader. A scene can reference one (or the url to one) in its
+ * staticConfig as `manifest`.
+ */
+export interface AssetManifest
+{
+    /** Named groups of assets, which can be loaded and unloaded independently. */
+    groups: {[name: string]: ManifestEntry[]};
+    /** Groups to load with the scene. Defaults to all groups. */
+    preload?: string[];
+}
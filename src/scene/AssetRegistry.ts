@@ -0,0 +1,223 @@
+import Phaser from 'phaser';
+import type { LoadInfo } from './ManagedLoader';
+
+interface RegistryEntry
+{
+    info: LoadInfo;
+    /** Everything (generally ManagedLoaders) currently using the asset. */
+    owners: Set<unknown>;
+}
+
+/**
+ * Removes a loaded asset from the game's caches.
+ */
+export function unloadAsset(game: Phaser.Game, key: string, info: LoadInfo): void
+{
+    switch (info.type)
+    {
+        case 'image':
+            game.textures.remove(key);
+            break;
+        case 'json':
+            game.cache.json.remove(key);
+            break;
+        case 'audio':
+            game.sound.removeByKey(key);
+            game.cache.audio.remove(key);
+            break;
+        case 'atlas':
+            game.textures.remove(key);
+            game.cache.json.remove(key);
+            break;
+        case 'spritesheet':
+            game.textures.remove(key);
+            break;
+        case 'spine':
+            for (const file of info!.multiFile!.files)
+            {
+                // cache reference on the file is null, so we need to manually remove from the cache
+                // for the cached subfiles
+                switch (file.type)
+                {
+                    case 'json':
+                        game.cache.json.remove(file.key);
+                        break;
+                    case 'image':
+                        game.textures.remove(file.key);
+                        break;
+                }
+            }
+            game.cache.custom.spine.remove(key);
+            if (game.cache.custom.spineTextures.has(key))
+            {
+                game.cache.custom.spineTextures.remove(key);
+            }
+            break;
+        case 'bitmapFont':
+            game.textures.remove(key);
+            game.cache.bitmapFont.remove(key);
+            break;
+        case 'video':
+            game.cache.video.remove(key);
+            break;
+        case 'tilemap':
+            game.cache.tilemap.remove(key);
+            break;
+        case 'svg':
+            game.textures.remove(key);
+            break;
+        case 'glsl':
+            game.cache.shader.remove(key);
+            break;
+        case 'text':
+            game.cache.text.remove(key);
+            break;
+        case 'xml':
+            game.cache.xml.remove(key);
+            break;
+        case 'audioSprite':
+            game.sound.removeByKey(key);
+            game.cache.audio.remove(key);
+            game.cache.json.remove(key);
+            break;
+        case 'webfont':
+            if (info.fontFace)
+            {
+                document.fonts.delete(info.fontFace);
+            }
+            break;
+    }
+}
+
+/**
+ * Game level reference counting of assets loaded through ManagedLoaders, so that an asset shared by
+ * consecutive scenes (or a scene and its overlays) stays loaded until nothing is using it.
+ * Optionally, a number of unused assets can be kept loaded ("warm") in case they are needed again soon,
+ * with the least recently used ones being unloaded first.
+ */
+export class AssetRegistry
+{
+    private game: Phaser.Game;
+    private entries: Map<string, RegistryEntry>;
+    /** Keys of unused but still loaded assets, least recently used first. */
+    private warm: string[];
+    private warmLimit: number;
+
+    constructor(game: Phaser.Game, warmLimit = 0)
+    {
+        this.game = game;
+        this.entries = new Map();
+        this.warm = [];
+        this.warmLimit = warmLimit;
+    }
+
+    /** If the registry knows about an asset, whether or not it is currently in use. */
+    public has(key: string): boolean
+    {
+        return this.entries.has(key);
+    }
+
+    public getInfo(key: string): LoadInfo|null
+    {
+        return this.entries.get(key)?.info ?? null;
+    }
+
+    /** Number of owners currently using an asset. */
+    public getRefCount(key: string): number
+    {
+        return this.entries.get(key)?.owners.size ?? 0;
+    }
+
+    /**
+     * Marks an asset as in use by an owner. The info is only used if the registry doesn't already know about the asset.
+     */
+    public acquire(key: string, info: LoadInfo, owner: unknown): void
+    {
+        let entry = this.entries.get(key);
+        if (!entry)
+        {
+            entry = { info, owners: new Set() };
+            this.entries.set(key, entry);
+        }
+        entry.owners.add(owner);
+        const warmIndex = this.warm.indexOf(key);
+        if (warmIndex >= 0)
+        {
+            this.warm.splice(warmIndex, 1);
+        }
+    }
+
+    /**
+     * Marks an asset as no longer in use by an owner. If nothing else is using it, it is unloaded
+     * or kept warm.
+     */
+    public release(key: string, owner: unknown): void
+    {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        entry.owners.delete(owner);
+        if (entry.owners.size) return;
+
+        if (this.warmLimit > 0)
+        {
+            this.warm.push(key);
+            this.trimWarm(this.warmLimit);
+        }
+        else
+        {
+            this.unload(key);
+        }
+    }
+
+    /**
+     * Removes an owner from an asset without unloading it, for assets that failed to load and so have nothing
+     * to unload.
+     */
+    public forget(key: string, owner: unknown): void
+    {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        entry.owners.delete(owner);
+        if (!entry.owners.size)
+        {
+            this.entries.delete(key);
+        }
+    }
+
+    /**
+     * Unloads an asset right away if nothing is using it, even if it is being kept warm. For assets whose
+     * content changes under the same key, like localized audio.
+     */
+    public evict(key: string): void
+    {
+        if (this.getRefCount(key)) return;
+        const warmIndex = this.warm.indexOf(key);
+        if (warmIndex >= 0)
+        {
+            this.warm.splice(warmIndex, 1);
+        }
+        this.unload(key);
+    }
+
+    /** Unloads all unused assets that are being kept warm. */
+    public clearWarm(): void
+    {
+        this.trimWarm(0);
+    }
+
+    private trimWarm(limit: number): void
+    {
+        while (this.warm.length > limit)
+        {
+            this.unload(this.warm.shift()!);
+        }
+    }
+
+    private unload(key: string): void
+    {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        unloadAsset(this.game, key, entry.info);
+    }
+}
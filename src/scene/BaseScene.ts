@@ -2,16 +2,28 @@ import Phaser from 'phaser';
 
 import { BaseGame } from '../game';
 import { ManagedLoader } from './ManagedLoader';
+import { AssetManifest } from './AssetManifest';
+import { LoadProgress } from './LoadProgress';
+import { CaptionCue, captionsKey, CaptionTrack, parseCaptions } from './Captions';
+import { DialogueHandle, DialogueRunner, DialogueStep } from './DialogueRunner';
 import { DisposableGroup, globalTimer, promises } from '@fablevision/utils';
 import { Sound } from '../audio';
+import type { Localized } from '../localization';
+import type { LayoutInfo } from '../game/Layout';
 
 /** Can be extended by specific games needs */
 export interface BaseDialogueData
 {
-    /** Urls of audio files (the different formats). */
-    audio: string[];
+    /** Urls of audio files (the different formats), or lists of them by locale. */
+    audio: Localized<string[]>;
     /** Text/caption for the audio file. */
-    text?: string;
+    text?: Localized<string>;
+    /** Timed captions, shown instead of `text` as the audio plays. */
+    cues?: Localized<CaptionCue[]>;
+    /** Url of a WebVTT or SRT file of timed captions, as an alternative to `cues`. */
+    captions?: Localized<string>;
+    /** Key of an audio sprite with a marker named after this entry's id, to play instead of `audio`. */
+    sprite?: string;
 }
 
 export interface CaptionHandler
@@ -27,11 +39,18 @@ export class BaseScene<S, A> extends Phaser.Scene
     protected args!: A;
     public staticConfig!: S;
     public mLoad: ManagedLoader = new ManagedLoader(this);
+    /**
+     * Progress of loading the scene, shown by the game's loader. Anything fetched in an overridden initialize()
+     * can be counted towards it with `this.loadProgress.track('initialize', promise)`.
+     */
+    public loadProgress: LoadProgress = new LoadProgress();
     public spine!: SpinePlugin;
     protected cleanup!: DisposableGroup;
     /** This can be overridden by specific games for stronger typing */
     public dialogueData!: {[key:string]: BaseDialogueData};
     public captionHandler!: CaptionHandler|null;
+    /** If this scene was opened with openOverlay(), on top of the current scene. */
+    public isOverlay = false;
 
     /**
      * This method is called by the game before the scene gets to load - it is where you would do any
@@ -45,23 +64,68 @@ export class BaseScene<S, A> extends Phaser.Scene
         this.captionHandler = null;
 
         this.cleanup = new DisposableGroup();
+
+        // queue up anything in the scene's asset manifest, to be loaded in preload()
+        const manifest = (staticConfig as any)?.manifest as string|AssetManifest|undefined;
+        if (manifest)
+        {
+            await this.loadProgress.track('initialize', this.queueManifest(manifest));
+            this.dialogueData = Object.assign({}, this.mLoad.dialogue as any, this.dialogueData);
+        }
+    }
+
+    /**
+     * Queues up the scene's manifest, letting the game offer to retry if it (or dialogue data it points to) fails
+     * to load. If it isn't retried, the scene goes on without it.
+     */
+    protected async queueManifest(manifest: string|AssetManifest): Promise<void>
+    {
+        let report = await this.mLoad.queueManifest(manifest);
+        while (!report.ok && await this.game.handleLoadFailure(report))
+        {
+            this.mLoad.retryFailed();
+            report = await this.mLoad.queueManifest(manifest);
+        }
     }
 
     preload(): void
     {
         // should be called after load requests have been made
-        this.mLoad.load().then(() => this.mCreate());
+        this.loadAssets().then(() => this.mCreate());
+    }
+
+    /**
+     * Loads everything queued up in the ManagedLoader, letting the game offer to retry if anything fails.
+     */
+    protected async loadAssets(): Promise<void>
+    {
+        let report = await this.mLoad.load();
+        while (!report.ok && await this.game.handleLoadFailure(report))
+        {
+            this.mLoad.retryFailed();
+            report = await this.mLoad.load();
+        }
     }
 
     mCreate(): void
     {
         // do a quick wait to try to let any promise based hooks to resolve
-        promises.wait(1).then(() =>
+        promises.wait(1).then(() => this.warmup(this.loadProgress)).then(() =>
         {
+            this.loadProgress.complete('warmup');
             this.events.emit('loaded');
         })
     }
 
+    /**
+     * Called after the scene's assets have loaded, while the loader is still up - for any setup that takes a while,
+     * like building textures or decoding data. Progress can be reported with `progress.set('warmup', fraction)`.
+     */
+    public async warmup(_progress: LoadProgress): Promise<void>
+    {
+        // to be overridden
+    }
+
     /**
      * Start gameplay. Games should override this in order to start gameplay, after loading has finished.
      */
@@ -70,10 +134,50 @@ export class BaseScene<S, A> extends Phaser.Scene
         // to be overridden
     }
 
+    /** Shorthand to get a localized string for the current locale. */
+    public t(key: string, params?: {[name: string]: string|number}): string
+    {
+        return this.game.localization.t(key, params);
+    }
+
     /**
-     * To be overridden by activities to handle any activity specific stuff
+     * Called when the game's locale changes, after localized audio has been reloaded. Override to
+     * re-render any text.
      */
-    resize(): void
+    public onLocaleChanged(_locale: string): void
+    {
+        // to be overridden
+    }
+
+    /** Sends a game specific analytics event. */
+    public trackEvent(name: string, data?: unknown): void
+    {
+        this.game.analytics.track('custom', { sceneId: this.game.currentEntry?.id ?? null, name, data });
+    }
+
+    /**
+     * Override to return the scene's state for saving, so that the learner can pick up where they left off.
+     * It must be JSON serializable.
+     */
+    public serializeState(): unknown
+    {
+        return null;
+    }
+
+    /**
+     * Override to restore state from serializeState() when resuming a save. Called after loading and
+     * before start().
+     */
+    public restoreState(_data: unknown): void
+    {
+        // to be overridden
+    }
+
+    /**
+     * To be overridden by activities to handle any activity specific stuff, like keeping UI within
+     * `layout.safeArea` when the game isn't the design size or is cropped.
+     */
+    resize(_layout: LayoutInfo): void
     {
         // no op
     }
@@ -89,9 +193,12 @@ export class BaseScene<S, A> extends Phaser.Scene
 
     shutdown(): void
     {
-        // stop all playback
-        this.game.audioManager.stopMusic();
-        this.game.audioManager.stopSfx();
+        // stop all playback, unless it belongs to the scene underneath us
+        if (!this.isOverlay)
+        {
+            this.game.audioManager.stopMusic();
+            this.game.audioManager.stopSfx();
+        }
         this.tweens.killAll();
         // do any cleanup of disposables we are tracking
         this.cleanup.dispose();
@@ -118,13 +225,22 @@ export class BaseScene<S, A> extends Phaser.Scene
         globalTimer.tick();
     }
 
+    /**
+     * Gets a loaded sound by name - a sound from the audio cache, a marker from a loaded audio sprite, or
+     * a global sfx.
+     */
+    public getSound(name: string): Sound|null
+    {
+        return (this.sound.get(name) as Sound) || this.mLoad.getSpriteSound(name) || this.game.audioManager.globalSfx.get(name) || null;
+    }
+
     /**
      * Shorthand to play sfx by name from the audio cache.
      */
     public playSfx(name: string): void
     {
-        const sound = (this.sound.get(name) as Sound) || this.game.audioManager.globalSfx.get(name as any);
-        if (sound)
+        const sound = this.getSound(name);
+        if (!sound)
         {
             console.error(`Audio ${name} is not loaded, can't play sfx`);
             return;
@@ -138,20 +254,46 @@ export class BaseScene<S, A> extends Phaser.Scene
         {
             for (let i = 0; i < audio.length; ++i)
             {
-                await this.doDialogue(audio, hideText);
+                await this.doDialogue(audio[i], hideText);
             }
             return;
         }
 
-        if (!this.cache.audio.has(audio))
+        const sound = this.getSound(audio);
+        if (!sound)
         {
             console.error(`Unable to find VO '${audio}', skipping`);
             return;
         }
+        let track: CaptionTrack|null = null;
         if (!hideText && this.captionHandler)
         {
-            this.captionHandler.text = this.dialogueData[audio].text!;
+            // without timed captions, the text is shown for the whole clip
+            const cues = this.getCaptionCues(audio) ?? [{ start: 0, end: Infinity, text: this.game.localization.resolve(this.dialogueData[audio]?.text) ?? '' }];
+            track = new CaptionTrack(this, sound, cues, this.captionHandler);
         }
-        await this.game.audioManager.playSingleVOClip(this.sound.get(audio) as Sound);
+        await this.game.audioManager.playSingleVOClip(sound);
+        track?.stop();
+    }
+
+    /**
+     * Plays through a script of dialogue lines, with optional delays, actions and branching. The returned handle
+     * can skip or cancel the dialogue.
+     */
+    public runDialogue(script: DialogueStep[]): DialogueHandle
+    {
+        return new DialogueRunner(this, script);
+    }
+
+    /**
+     * Gets the timed captions for a dialogue entry, either given inline or from its loaded caption file.
+     */
+    public getCaptionCues(id: string): CaptionCue[]|null
+    {
+        const data = this.dialogueData?.[id];
+        if (!data) return null;
+        const cues = this.game.localization.resolve(data.cues) ??
+            (this.cache.text.has(captionsKey(id)) ? parseCaptions(this.cache.text.get(captionsKey(id))) : null);
+        return cues?.length ? cues : null;
     }
 }
@@ -0,0 +1,115 @@
+import Phaser from 'phaser';
+import type { Sound } from '../audio';
+import type { CaptionHandler } from './BaseScene';
+
+/** A single timed caption. Times are in seconds from the start of the audio. */
+export interface CaptionCue
+{
+    start: number;
+    end: number;
+    text: string;
+}
+
+/** Key that a dialogue entry's caption file is loaded under in the text cache. */
+export function captionsKey(id: string): string
+{
+    return `${id}__captions`;
+}
+
+const TIMING = /((?:\d+:)?\d+:\d+[.,]\d+)\s*-->\s*((?:\d+:)?\d+:\d+[.,]\d+)/;
+
+/** Converts a WebVTT (00:01.500 or 00:00:01.500) or SRT (00:00:01,500) timestamp to seconds. */
+function parseTimestamp(stamp: string): number
+{
+    const parts = stamp.replace(',', '.').split(':').map(Number);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Parses the cues from a WebVTT or SRT file. Cue settings, identifiers, notes and styling blocks are ignored,
+ * and any tags (like <i> or <v Speaker>) are stripped from the text.
+ */
+export function parseCaptions(source: string): CaptionCue[]
+{
+    const cues: CaptionCue[] = [];
+    const blocks = source.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+    for (const block of blocks)
+    {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => TIMING.test(line));
+        if (timingIndex < 0) continue;
+        const [, start, end] = lines[timingIndex].match(TIMING)!;
+        cues.push({
+            start: parseTimestamp(start),
+            end: parseTimestamp(end),
+            text: lines.slice(timingIndex + 1).join('\n').replace(/<[^>]*>/g, '').trim(),
+        });
+    }
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/** Finds the cue to show at a time, or null if nothing should be shown. */
+export function findCue(cues: CaptionCue[], time: number): CaptionCue|null
+{
+    for (const cue of cues)
+    {
+        if (time >= cue.start && time < cue.end) return cue;
+    }
+    return null;
+}
+
+/**
+ * Keeps a caption handler in sync with a playing sound, cue by cue. The sound's position is checked every
+ * scene update, so captions hold while the sound is paused. The handler is cleared once the sound has
+ * ended or been stopped.
+ */
+export class CaptionTrack
+{
+    private scene: Phaser.Scene;
+    private sound: Sound;
+    private cues: CaptionCue[];
+    private handler: CaptionHandler;
+    private current: CaptionCue|null;
+    /** If the sound has started playing, so that we know when it is done. */
+    private started: boolean;
+
+    constructor(scene: Phaser.Scene, sound: Sound, cues: CaptionCue[], handler: CaptionHandler)
+    {
+        this.scene = scene;
+        this.sound = sound;
+        this.cues = cues;
+        this.handler = handler;
+        this.current = null;
+        this.started = false;
+        this.handler.text = '';
+        this.scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+        this.scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.stop, this);
+    }
+
+    private update(): void
+    {
+        const active = this.sound.isPlaying || this.sound.isPaused;
+        if (!active)
+        {
+            if (this.started) this.stop();
+            return;
+        }
+        this.started = true;
+        const cue = findCue(this.cues, this.sound.seek);
+        if (cue !== this.current)
+        {
+            this.current = cue;
+            this.handler.text = cue ? cue.text : '';
+        }
+    }
+
+    /** Stops syncing and clears the caption. Safe to call more than once. */
+    public stop(): void
+    {
+        this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+        this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.stop, this);
+        this.handler.text = '';
+        this.current = null;
+        this.started = false;
+    }
+}
@@ -0,0 +1,195 @@
+import Phaser from 'phaser';
+import type { BaseScene } from './BaseScene';
+
+/** Emitted on the scene's and the game's events when a dialogue line starts playing, with a DialogueLineEvent. */
+export const DIALOGUE_LINE_START = 'dialoguelinestart';
+/** Emitted on the scene's and the game's events when a dialogue line finishes or is skipped, with a DialogueLineEvent. */
+export const DIALOGUE_LINE_END = 'dialoguelineend';
+
+export interface DialogueLine
+{
+    /** Id in the scene's dialogueData to play. Lines without one only run their action and branching. */
+    id?: string;
+    /** Label for other lines to branch to. */
+    label?: string;
+    /** Milliseconds to wait before the line. */
+    delay?: number;
+    /** Run before the line plays. Actions are still run when skipping through the rest of the dialogue. */
+    action?: () => void|Promise<void>;
+    /**
+     * Label of the line to go to after this one, or a function returning one. If not given (or the function
+     * returns undefined), the next line in the list follows.
+     */
+    next?: string|(() => string|undefined);
+    /** If the dialogue should end after this line. */
+    end?: boolean;
+    hideText?: boolean;
+}
+
+/** Lines can be given as just their dialogue id. */
+export type DialogueStep = string|DialogueLine;
+
+export type DialogueResult = 'complete'|'skipped'|'cancelled';
+
+export interface DialogueLineEvent
+{
+    scene: Phaser.Scene;
+    id: string;
+    /** Position of the line in the script. */
+    index: number;
+    /** For line end events, if the line was cut short. */
+    skipped?: boolean;
+}
+
+/** Controls for a running dialogue script. */
+export interface DialogueHandle
+{
+    /** Resolves when the dialogue finishes, is skipped or is cancelled - whichever way it ends. */
+    promise: Promise<DialogueResult>;
+    /** Stops the current line (or delay) and moves on to the next one. */
+    skipLine(): void;
+    /** Stops playback and runs through the actions of the remaining lines, without audio or delays. */
+    skipAll(): void;
+    /** Stops playback immediately, without running anything else. */
+    cancel(): void;
+}
+
+/**
+ * Plays through a script of dialogue lines from a scene's dialogueData. Start one with BaseScene.runDialogue().
+ * The dialogue is cancelled if the scene shuts down.
+ */
+export class DialogueRunner<S, A> implements DialogueHandle
+{
+    public readonly promise: Promise<DialogueResult>;
+    private scene: BaseScene<S, A>;
+    private lines: DialogueLine[];
+    private state: 'running'|'skipping'|'cancelled';
+    /** Ends the current wait (a delay or a line), if any. */
+    private interrupt: (() => void)|null;
+    /** If the current wait is on a line's audio, which needs to be stopped to skip it. */
+    private playing: boolean;
+    private lineSkipped: boolean;
+
+    constructor(scene: BaseScene<S, A>, script: DialogueStep[])
+    {
+        this.scene = scene;
+        this.lines = script.map(step => typeof step == 'string' ? { id: step } : step);
+        this.state = 'running';
+        this.interrupt = null;
+        this.playing = false;
+        this.lineSkipped = false;
+        this.scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.cancel, this);
+        const done = () => this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.cancel, this);
+        this.promise = this.run().then(result =>
+        {
+            done();
+            return result;
+        }, e =>
+        {
+            done();
+            throw e;
+        });
+    }
+
+    public skipLine(): void
+    {
+        this.lineSkipped = true;
+        this.stopWaiting();
+    }
+
+    public skipAll(): void
+    {
+        if (this.state != 'running') return;
+        this.state = 'skipping';
+        this.skipLine();
+    }
+
+    public cancel(): void
+    {
+        this.state = 'cancelled';
+        this.skipLine();
+    }
+
+    /** Checked through a getter, as the state can change while we are awaiting. */
+    private get isCancelled(): boolean
+    {
+        return this.state == 'cancelled';
+    }
+
+    private stopWaiting(): void
+    {
+        if (this.playing)
+        {
+            this.scene.game.audioManager.stopAllVOClips();
+        }
+        this.interrupt?.();
+    }
+
+    private async run(): Promise<DialogueResult>
+    {
+        let index = 0;
+        while (index < this.lines.length)
+        {
+            const line = this.lines[index];
+            if (line.delay && this.state == 'running')
+            {
+                await this.wait(this.scene.wait(line.delay));
+            }
+            if (this.isCancelled) break;
+            if (line.action)
+            {
+                await line.action();
+            }
+            if (line.id && this.state == 'running')
+            {
+                await this.playLine(line.id, index, line.hideText);
+            }
+            if (this.isCancelled || line.end) break;
+
+            const label = typeof line.next == 'function' ? line.next() : line.next;
+            if (label === undefined)
+            {
+                ++index;
+                continue;
+            }
+            index = this.lines.findIndex(l => l.label === label);
+            if (index < 0)
+            {
+                console.error(`Unknown dialogue label '${label}', ending dialogue`);
+                break;
+            }
+        }
+        return this.isCancelled ? 'cancelled' : this.state == 'skipping' ? 'skipped' : 'complete';
+    }
+
+    private async playLine(id: string, index: number, hideText?: boolean): Promise<void>
+    {
+        const event: DialogueLineEvent = { scene: this.scene, id, index };
+        this.emit(DIALOGUE_LINE_START, 'dialogueLineStart', event);
+        this.lineSkipped = false;
+        this.playing = true;
+        await this.wait(this.scene.doDialogue(id, hideText));
+        this.playing = false;
+        this.emit(DIALOGUE_LINE_END, 'dialogueLineEnd', { ...event, skipped: this.lineSkipped });
+    }
+
+    private emit(eventName: string, lifecycleEvent: 'dialogueLineStart'|'dialogueLineEnd', event: DialogueLineEvent): void
+    {
+        this.scene.events.emit(eventName, event);
+        this.scene.game.events.emit(eventName, event);
+        this.scene.game.lifecycle.emit(lifecycleEvent, event);
+    }
+
+    /** Waits for a promise, unless interrupted by skipping or cancelling. */
+    private wait(promise: Promise<void>): Promise<void>
+    {
+        return new Promise<void>(resolve =>
+        {
+            this.interrupt = resolve;
+            promise.then(resolve, resolve);
+        }).then(() =>
+        {
+            this.interrupt = null;
+        });
+    }
+}
@@ -0,0 +1,244 @@
+import Phaser from 'phaser';
+
+/** Emitted by LoadProgress with the smoothed overall progress (0-1) whenever it changes. */
+export const LOAD_PROGRESS = 'progress';
+/** Emitted by LoadProgress once every phase is complete. */
+export const LOAD_COMPLETE = 'complete';
+
+/**
+ * How much of the overall progress each phase of loading a scene makes up:
+ * initialize - content fetched in the scene's async initialize(), like its asset manifest
+ * assets - files downloaded by the scene's ManagedLoader
+ * audio - decoding downloaded audio, which happens after it has downloaded
+ * warmup - the scene's warmup(), for anything to do after loading but before starting
+ * Scenes can override these with `loadPhases` in their staticConfig.
+ */
+export const DEFAULT_PHASE_WEIGHTS: {[phase: string]: number} = {
+    initialize: 1,
+    assets: 6,
+    audio: 2,
+    warmup: 1,
+};
+
+interface Phase
+{
+    weight: number;
+    /** Progress through the phase, 0-1. */
+    fraction: number;
+    /** Promises being tracked for the phase, and how many have settled. */
+    tracked: number;
+    settled: number;
+}
+
+/** File states that mean a file is done with, one way or another. */
+const FILE_DONE_STATES = [Phaser.Loader.FILE_FAILED, Phaser.Loader.FILE_ERRORED, Phaser.Loader.FILE_COMPLETE, Phaser.Loader.FILE_DESTROYED];
+
+/**
+ * Combines the progress of several weighted phases of loading into one 0-1 value, smoothed so that it moves
+ * steadily instead of jumping, and never goes backwards. Listen for LOAD_PROGRESS to show it.
+ * It needs update() to be called each frame to advance the smoothing, which BaseGame does for the progress it
+ * shows in the HUD.
+ */
+export class LoadProgress extends Phaser.Events.EventEmitter
+{
+    private phases: Map<string, Phase>;
+    /** Milliseconds to take to catch up with the actual progress. */
+    private smoothTime: number;
+    private current: number;
+    private finished: boolean;
+    private completed: boolean;
+
+    constructor(weights: {[phase: string]: number} = DEFAULT_PHASE_WEIGHTS, smoothTime = 250)
+    {
+        super();
+        this.phases = new Map();
+        this.smoothTime = smoothTime;
+        this.current = 0;
+        this.finished = false;
+        this.completed = false;
+        for (const name in weights)
+        {
+            this.addPhase(name, weights[name]);
+        }
+    }
+
+    /** Adds a phase, or changes its weight if it already exists. */
+    public addPhase(name: string, weight: number): void
+    {
+        const phase = this.phases.get(name);
+        if (phase)
+        {
+            phase.weight = weight;
+        }
+        else
+        {
+            this.phases.set(name, { weight, fraction: 0, tracked: 0, settled: 0 });
+        }
+    }
+
+    /** Sets how far through a phase loading is, 0-1. Progress within a phase can't go backwards. */
+    public set(name: string, fraction: number): void
+    {
+        const phase = this.getPhase(name);
+        phase.fraction = Math.max(phase.fraction, Phaser.Math.Clamp(fraction, 0, 1));
+        this.checkComplete();
+    }
+
+    /**
+     * Counts a promise towards a phase - the phase's progress is how many of its tracked promises have settled.
+     * Resolves or rejects with the promise.
+     */
+    public track<T>(name: string, promise: Promise<T>): Promise<T>
+    {
+        const phase = this.getPhase(name);
+        ++phase.tracked;
+        const settle = () =>
+        {
+            ++phase.settled;
+            this.set(name, phase.settled / phase.tracked);
+        };
+        promise.then(settle, settle);
+        return promise;
+    }
+
+    public complete(name: string): void
+    {
+        this.set(name, 1);
+    }
+
+    /** Drops a phase that turned out to have nothing to do, so that it doesn't hold up the overall progress. */
+    public skip(name: string): void
+    {
+        this.getPhase(name).weight = 0;
+        this.checkComplete();
+    }
+
+    /**
+     * Follows a Phaser loader, with its downloads counting towards one phase and the decoding of any audio towards
+     * another (which is skipped if there isn't any). Returns a function to stop following it.
+     */
+    public trackLoader(loader: Phaser.Loader.LoaderPlugin, assetsPhase = 'assets', audioPhase = 'audio'): () => void
+    {
+        const audioFiles: Phaser.Loader.File[] = [];
+        const onStart = () =>
+        {
+            // files may have been queued up before we started following the loader, so go by what it is loading
+            loader.list.each(file =>
+            {
+                if (file.type == 'audio' && !audioFiles.includes(file))
+                {
+                    audioFiles.push(file);
+                }
+            });
+            if (!audioFiles.length)
+            {
+                this.skip(audioPhase);
+            }
+        };
+        const onProgress = (progress: number) => this.set(assetsPhase, progress);
+        const onFileDone = () =>
+        {
+            if (!audioFiles.length) return;
+            const done = audioFiles.filter(file => FILE_DONE_STATES.includes(file.state)).length;
+            this.set(audioPhase, done / audioFiles.length);
+        };
+        const onComplete = () =>
+        {
+            this.complete(assetsPhase);
+            this.complete(audioPhase);
+        };
+        loader.on(Phaser.Loader.Events.START, onStart);
+        loader.on(Phaser.Loader.Events.PROGRESS, onProgress);
+        loader.on(Phaser.Loader.Events.FILE_COMPLETE, onFileDone);
+        loader.on(Phaser.Loader.Events.FILE_LOAD_ERROR, onFileDone);
+        loader.on(Phaser.Loader.Events.COMPLETE, onComplete);
+        return () =>
+        {
+            loader.off(Phaser.Loader.Events.START, onStart);
+            loader.off(Phaser.Loader.Events.PROGRESS, onProgress);
+            loader.off(Phaser.Loader.Events.FILE_COMPLETE, onFileDone);
+            loader.off(Phaser.Loader.Events.FILE_LOAD_ERROR, onFileDone);
+            loader.off(Phaser.Loader.Events.COMPLETE, onComplete);
+        };
+    }
+
+    /** The actual overall progress, 0-1, without smoothing. */
+    public get target(): number
+    {
+        let total = 0;
+        let done = 0;
+        this.phases.forEach(phase =>
+        {
+            total += phase.weight;
+            done += phase.weight * phase.fraction;
+        });
+        return total > 0 ? done / total : 1;
+    }
+
+    /** If every phase is complete (or skipped), even if the smoothed progress hasn't caught up yet. */
+    public get isComplete(): boolean
+    {
+        for (const phase of this.phases.values())
+        {
+            if (phase.weight > 0 && phase.fraction < 1) return false;
+        }
+        return true;
+    }
+
+    /** The smoothed overall progress, 0-1, as last emitted. */
+    public get value(): number
+    {
+        return this.current;
+    }
+
+    /** Moves the smoothed progress towards the actual progress. */
+    public update(delta: number): void
+    {
+        if (this.finished) return;
+        const target = this.target;
+        if (target <= this.current) return;
+        let next = this.current + (target - this.current) * Math.min(1, delta / this.smoothTime);
+        // don't creep towards the end forever
+        if (target - next < 0.001)
+        {
+            next = target;
+        }
+        this.report(next);
+    }
+
+    /** Marks everything as done, jumping straight to 1 - for when loading is over, smoothing or not. */
+    public finish(): void
+    {
+        if (this.finished) return;
+        this.phases.forEach(phase => phase.fraction = 1);
+        this.report(1);
+        this.finished = true;
+        this.checkComplete();
+    }
+
+    private checkComplete(): void
+    {
+        if (this.completed || !this.isComplete) return;
+        this.completed = true;
+        this.emit(LOAD_COMPLETE);
+    }
+
+    private report(value: number): void
+    {
+        if (value <= this.current) return;
+        this.current = value;
+        this.emit(LOAD_PROGRESS, value);
+    }
+
+    private getPhase(name: string): Phase
+    {
+        let phase = this.phases.get(name);
+        if (!phase)
+        {
+            // phases that weren't weighted up front don't count towards progress
+            phase = { weight: 0, fraction: 0, tracked: 0, settled: 0 };
+            this.phases.set(name, phase);
+        }
+        return phase;
+    }
+}
@@ -1,25 +1,93 @@
-import type { BaseScene } from './BaseScene';
-import { Sound } from '../audio';
+import { createSpriteSounds, Sound } from '../audio';
+import { AssetRegistry, unloadAsset } from './AssetRegistry';
+import { AssetManifest, ManifestEntry } from './AssetManifest';
+import { captionsKey } from './Captions';
+import type { Localization, Localized } from '../localization';
 
 export interface AudioFileData
 {
     /** ID may be present, in case you had an array of AudioFileData */
     id?: string;
-    /** List of urls to audio files, in order of preference (i.e. opus, caf, mp3) */
-    audio: string[];
+    /** List of urls to audio files, in order of preference (i.e. opus, caf, mp3), or lists by locale */
+    audio: Localized<string[]>;
     /** Loaded Sound will get stored here, for easy access when loaded and to prevent reloads. */
     audioObj?: Sound;
     /** Volume, if one wants a quieter default volume than 1 */
     volume?: number;
+    /** Url of a WebVTT or SRT file of timed captions, loaded into the text cache under captionsKey(id). */
+    captions?: Localized<string>;
+    /**
+     * Key of an audio sprite (loaded separately) with a marker named after this entry's id, to use instead
+     * of audio urls.
+     */
+    sprite?: string;
 }
 
-type LoadedType = 'json'|'atlas'|'spritesheet'|'spine'|'image'|'audio';
-interface LoadInfo
+export type LoadedType = 'json'|'atlas'|'spritesheet'|'spine'|'image'|'audio'|'bitmapFont'|'video'|'tilemap'|'svg'|'glsl'|'text'|'xml'|'audioSprite'|'webfont';
+export interface LoadInfo
 {
     type: LoadedType;
     multiFile?: Phaser.Loader.MultiFile|null;
+    /** Loaded font, for web fonts. */
+    fontFace?: FontFace|null;
+}
+
+interface QueuedFont
+{
+    key: string;
+    url: string;
+    descriptors?: FontFaceDescriptors;
 }
 
+/** Maps a file's url to the url to use for a particular load attempt. */
+type UrlMapper = (url: string) => string;
+/** Adds a file to the Phaser loader. Returns the MultiFile if the file type creates one that we need to track. */
+type AddFile = (mapUrl: UrlMapper) => Phaser.Loader.MultiFile|null|void;
+
+export interface LoadOptions
+{
+    /** Number of times to retry a file that failed to load. */
+    retries: number;
+    /** Milliseconds to wait before the first retry. Doubles with each retry after that. */
+    retryDelay: number;
+    /** Milliseconds a file can go without any download progress before it is considered failed. */
+    timeout: number;
+    /**
+     * Alternate urls to try for a file, by the file's original url. Load attempts cycle through the original url
+     * and then its fallbacks.
+     */
+    fallbacks: {[url: string]: string[]};
+}
+
+export const DEFAULT_LOAD_OPTIONS: LoadOptions = {
+    retries: 2,
+    retryDelay: 500,
+    timeout: 15000,
+    fallbacks: {},
+};
+
+export interface LoadFailure
+{
+    key: string;
+    /** 'scene' is for a scene's code, which is keyed by the scene's id. */
+    type: LoadedType|'scene';
+    reason: 'error'|'timeout';
+    /** Number of times we tried to load it. */
+    attempts: number;
+}
+
+/** Result of ManagedLoader.load(). */
+export interface LoadReport
+{
+    /** True if everything loaded. */
+    ok: boolean;
+    /** Everything that failed to load, after retries. */
+    failed: LoadFailure[];
+}
+
+/** Any scene a ManagedLoader can load through - BaseScenes, or utility scenes like the prefetcher's. */
+export type LoaderScene = Phaser.Scene & { spine: SpinePlugin };
+
 function IsNotNull<T>(test: T | null): test is T
 {
     return test != null;
@@ -27,15 +95,111 @@ function IsNotNull<T>(test: T | null): test is T
 
 export class ManagedLoader
 {
-    private scene: BaseScene<any, any>;
+    private scene: LoaderScene;
     private loadedTypeByKey: {[key:string]: LoadInfo};
     private pendingLoad: boolean;
+    /** Groups from any manifests that have been added. */
+    private manifestGroups: {[name: string]: ManifestEntry[]};
+    /** Keys queued by each manifest group that has been queued. */
+    private keysByGroup: {[name: string]: string[]};
+    /** All dialogue objects loaded through manifests, by id. */
+    public dialogue: {[name: string]: AudioFileData};
+    /** How to add each tracked file to the loader again, for retries. */
+    private addFileByKey: {[key: string]: AddFile};
+    /** Called when a file fails to load for good. */
+    private failureHandlers: {[key: string]: (failure: LoadFailure) => void};
+    /** Files that failed to load for good, and can be retried with retryFailed(). */
+    private failedByKey: {[key: string]: LoadInfo};
+    /** Per-loader overrides of the game's load options. */
+    private optionOverrides: Partial<LoadOptions>;
+    /** Web fonts to load with the next load(), as they don't go through the Phaser loader. */
+    private fontQueue: QueuedFont[];
+    /** Sounds for the markers of loaded audio sprites, by marker name. */
+    private spriteSounds: Map<string, Sound>;
+    /** Loaded audio entries with different audio or captions by locale, to reload when the locale changes. */
+    private localizedAudio: AudioFileData[];
 
-    constructor(scene: BaseScene<any, any>)
+    constructor(scene: LoaderScene)
     {
         this.scene = scene;
         this.loadedTypeByKey = {};
         this.pendingLoad = false;
+        this.manifestGroups = {};
+        this.keysByGroup = {};
+        this.dialogue = {};
+        this.addFileByKey = {};
+        this.failureHandlers = {};
+        this.failedByKey = {};
+        this.optionOverrides = {};
+        this.fontQueue = [];
+        this.spriteSounds = new Map();
+        this.localizedAudio = [];
+    }
+
+    /** Load options for this loader - the defaults, then the game's `loadOptions`, then any set with setOptions(). */
+    public get options(): LoadOptions
+    {
+        const gameOptions = (this.scene.game as {loadOptions?: Partial<LoadOptions>}).loadOptions;
+        return Object.assign({}, DEFAULT_LOAD_OPTIONS, gameOptions, this.optionOverrides);
+    }
+
+    /** Overrides load options for just this loader. */
+    public setOptions(options: Partial<LoadOptions>): void
+    {
+        Object.assign(this.optionOverrides, options);
+    }
+
+    /** Gets the version of a value for the game's current locale. */
+    private localize<T>(value: Localized<T>|undefined): T|undefined
+    {
+        const localization = (this.scene.game as {localization?: Localization}).localization;
+        if (localization) return localization.resolve(value);
+        // without localization, go with the first locale
+        return value && typeof value == 'object' && !Array.isArray(value) ? Object.values(value)[0] : value as T|undefined;
+    }
+
+    /** The game's shared asset registry, if it has one. */
+    private get registry(): AssetRegistry|null
+    {
+        return (this.scene.game as {assets?: AssetRegistry}).assets ?? null;
+    }
+
+    /** Adds a file to the loader, and starts tracking it. */
+    private track(key: string, info: LoadInfo, addFile: AddFile): void
+    {
+        this.addFileByKey[key] = addFile;
+        this.loadedTypeByKey[key] = info;
+        this.registry?.acquire(key, info, this);
+        this.addFile(key, 0);
+    }
+
+    /** Adds a tracked file to the loader, using the url for the given attempt. */
+    private addFile(key: string, attempt: number): void
+    {
+        const fallbacks = this.options.fallbacks;
+        const multiFile = this.addFileByKey[key]((url: string) =>
+        {
+            const candidates = [url, ...(fallbacks[url] || [])];
+            return candidates[attempt % candidates.length];
+        });
+        if (multiFile)
+        {
+            this.loadedTypeByKey[key].multiFile = multiFile;
+        }
+        this.pendingLoad = true;
+    }
+
+    /**
+     * Called for assets that were already loaded - if another ManagedLoader loaded it, we share ownership
+     * so that it isn't unloaded out from under us.
+     */
+    private share(key: string): void
+    {
+        if (this.loadedTypeByKey[key]) return;
+        const info = this.registry?.getInfo(key);
+        if (!info) return;
+        this.loadedTypeByKey[key] = info;
+        this.registry!.acquire(key, info, this);
     }
 
     public isLoadedOrLoading(key: string): boolean
@@ -43,81 +207,337 @@ export class ManagedLoader
         return !!this.loadedTypeByKey[key];
     }
 
-    public load(): Promise<void>
+    /** If anything has been queued up since the last call to load(). */
+    public get hasPendingLoad(): boolean
     {
-        if (!this.pendingLoad) return Promise.resolve();
+        return this.pendingLoad;
+    }
+
+    /** What was loaded for a tracked key, or null if it isn't tracked. */
+    public getLoadInfo(key: string): LoadInfo|null
+    {
+        return this.loadedTypeByKey[key] ?? null;
+    }
+
+    /** Keys of everything this loader is tracking, to be unloaded by unloadAll(). */
+    public get trackedKeys(): string[]
+    {
+        return Object.keys(this.loadedTypeByKey);
+    }
+
+    /**
+     * Hands over tracking of loaded assets to another loader, so that they are unloaded with that loader
+     * instead of this one. Used for handing prefetched assets to a scene.
+     */
+    public transferTo(other: ManagedLoader, keys: string[] = this.trackedKeys): void
+    {
+        for (const key of keys)
+        {
+            const info = this.loadedTypeByKey[key];
+            if (!info) continue;
+            other.loadedTypeByKey[key] = info;
+            delete this.loadedTypeByKey[key];
+            // the marker sounds go with the audio sprite, so that the other loader can play and clean them up
+            if (info.type == 'audioSprite')
+            {
+                this.getSpriteSounds(key).forEach((sound, marker) =>
+                {
+                    other.spriteSounds.set(marker, sound);
+                    this.spriteSounds.delete(marker);
+                });
+            }
+            // acquire before releasing, so that the asset doesn't get unloaded in between
+            this.registry?.acquire(key, info, other);
+            this.registry?.release(key, this);
+        }
+    }
+
+    /**
+     * Loads everything that has been queued up, retrying failed files as configured in the load options.
+     * Resolves with a report of anything that failed to load.
+     */
+    public async load(): Promise<LoadReport>
+    {
+        const failures: LoadFailure[] = [];
+        if (!this.pendingLoad) return { ok: true, failed: failures };
+
+        const attempts: {[key: string]: number} = {};
+        while (this.pendingLoad)
+        {
+            this.pendingLoad = false;
+            const [failed, failedFonts] = await Promise.all([this.runLoader(), this.loadFonts()]);
+            failedFonts.forEach((reason, key) => failed.set(key, reason));
+            let retryAttempt = 0;
+            for (const [key, reason] of failed)
+            {
+                const attempt = attempts[key] = (attempts[key] || 0) + 1;
+                if (attempt <= this.options.retries)
+                {
+                    retryAttempt = Math.max(retryAttempt, attempt);
+                    continue;
+                }
+                const failure: LoadFailure = { key, type: this.loadedTypeByKey[key].type, reason, attempts: attempt };
+                failures.push(failure);
+                this.markFailed(failure);
+            }
+            if (retryAttempt)
+            {
+                await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * Math.pow(2, retryAttempt - 1)));
+                for (const [key] of failed)
+                {
+                    if (this.loadedTypeByKey[key])
+                    {
+                        this.addFile(key, attempts[key]);
+                    }
+                }
+            }
+        }
+        // give any file complete listeners a chance to run
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return { ok: !failures.length, failed: failures };
+    }
+
+    /**
+     * Runs the Phaser loader once through, resolving with the keys of any of our files that failed.
+     * Files that stop making progress are failed after the timeout, as Phaser doesn't handle xhr timeouts itself.
+     */
+    private runLoader(): Promise<Map<string, LoadFailure['reason']>>
+    {
+        const load = this.scene.load;
+        const failed = new Map<string, LoadFailure['reason']>();
+        const timedOut = new Set<Phaser.Loader.File>();
+        const lastProgress = new Map<Phaser.Loader.File, number>();
+        const ownerKey = (file: Phaser.Loader.File) => file.multiFile ? file.multiFile.key : file.key;
+        // don't start the loader (and trigger its events) when the only things to load were web fonts
+        if (!load.list.size && !load.isLoading()) return Promise.resolve(failed);
+
+        const onError = (file: Phaser.Loader.File) =>
+        {
+            const key = ownerKey(file);
+            if (this.loadedTypeByKey[key] && !failed.has(key))
+            {
+                failed.set(key, timedOut.has(file) ? 'timeout' : 'error');
+            }
+        };
+        const onProgress = (file: Phaser.Loader.File) => lastProgress.set(file, Date.now());
+        const timeout = this.options.timeout;
+        const watchdog = setInterval(() =>
+        {
+            const now = Date.now();
+            load.inflight.each(file =>
+            {
+                if (!this.loadedTypeByKey[ownerKey(file)]) return;
+                const last = lastProgress.get(file);
+                if (last === undefined)
+                {
+                    lastProgress.set(file, now);
+                }
+                else if (now - last > timeout)
+                {
+                    timedOut.add(file);
+                    file.xhrLoader?.abort();
+                    file.onError(file.xhrLoader, new ProgressEvent('timeout'));
+                }
+            });
+        }, 1000);
 
         return new Promise(resolve =>
         {
-            this.scene.load.once('complete', () =>
+            load.on('loaderror', onError);
+            load.on('fileprogress', onProgress);
+            load.once('complete', () =>
             {
-                this.pendingLoad = false;
-                setTimeout(resolve, 1);
+                clearInterval(watchdog);
+                load.off('loaderror', onError);
+                load.off('fileprogress', onProgress);
+                resolve(failed);
             });
-            this.scene.load.start();
+            load.start();
         });
     }
 
+    /** Loads any queued web fonts, resolving with the keys of any that failed. */
+    private async loadFonts(): Promise<Map<string, LoadFailure['reason']>>
+    {
+        const failed = new Map<string, LoadFailure['reason']>();
+        const fonts = this.fontQueue;
+        this.fontQueue = [];
+        await Promise.all(fonts.map(async font =>
+        {
+            const info = this.loadedTypeByKey[font.key];
+            try
+            {
+                const face = new FontFace(font.key, `url(${font.url})`, font.descriptors);
+                await face.load();
+                document.fonts.add(face);
+                info.fontFace = face;
+            }
+            catch (e)
+            {
+                failed.set(font.key, 'error');
+            }
+        }));
+        return failed;
+    }
+
+    /** Stops tracking a file that failed to load, so that it isn't unloaded or reported as loaded. */
+    private markFailed(failure: LoadFailure): void
+    {
+        const key = failure.key;
+        this.failedByKey[key] = this.loadedTypeByKey[key];
+        delete this.loadedTypeByKey[key];
+        this.registry?.forget(key, this);
+        const handler = this.failureHandlers[key];
+        delete this.failureHandlers[key];
+        handler?.(failure);
+    }
+
+    /** Keys of files that failed to load. */
+    public get failedKeys(): string[]
+    {
+        return Object.keys(this.failedByKey);
+    }
+
+    /**
+     * Queues up everything that failed to load to be tried again. Call load() to load them.
+     * Returns the number of files queued.
+     */
+    public retryFailed(): number
+    {
+        const keys = this.failedKeys;
+        for (const key of keys)
+        {
+            const info = this.failedByKey[key];
+            delete this.failedByKey[key];
+            this.track(key, info, this.addFileByKey[key]);
+        }
+        return keys.length;
+    }
+
     public json(key:string, url:string): void
     {
-        if (this.scene.cache.json.has(key)) return;
-        this.scene.load.json(key, url);
-        this.loadedTypeByKey[key] = { type: 'json' };
-        this.pendingLoad = true;
+        if (this.scene.cache.json.has(key)) return this.share(key);
+        this.track(key, { type: 'json' }, mapUrl => { this.scene.load.json(key, mapUrl(url)); });
     }
 
     public atlas(key: string, url: string): void
     {
-        if (this.scene.textures.exists(key)) return;
-        this.scene.load.atlas(key, url.replace('.json', '.png'), url);
-        this.loadedTypeByKey[key] = { type: 'atlas' };
-        this.pendingLoad = true;
+        if (this.scene.textures.exists(key)) return this.share(key);
+        this.track(key, { type: 'atlas' }, mapUrl =>
+        {
+            this.scene.load.atlas(key, mapUrl(url.replace('.json', '.png')), mapUrl(url));
+        });
     }
 
     public spritesheet(key: string, url: string, frameConfig?: Phaser.Types.Loader.FileTypes.ImageFrameConfig): void
     {
-        if (this.scene.textures.exists(key)) return;
-        this.scene.load.spritesheet(key, url, frameConfig);
-        this.loadedTypeByKey[key] = { type: 'spritesheet' };
-        this.pendingLoad = true;
+        if (this.scene.textures.exists(key)) return this.share(key);
+        this.track(key, { type: 'spritesheet' }, mapUrl => { this.scene.load.spritesheet(key, mapUrl(url), frameConfig); });
     }
 
     public spine(key: string, skeleton: string, atlas:string, premultipliedAlpha = false): void
     {
-        if (this.scene.spine.cache.has(key)) return;
-        this.scene.load.spine(key, skeleton, atlas, premultipliedAlpha);
-        const multiFile = this.scene.load.list.entries[this.scene.load.list.size - 1].multiFile;
-        this.loadedTypeByKey[key] = { type: 'spine', multiFile };
-        this.pendingLoad = true;
+        if (this.scene.spine.cache.has(key)) return this.share(key);
+        this.track(key, { type: 'spine' }, mapUrl =>
+        {
+            this.scene.load.spine(key, mapUrl(skeleton), mapUrl(atlas), premultipliedAlpha);
+            return this.scene.load.list.entries[this.scene.load.list.size - 1].multiFile;
+        });
     }
 
     public multiatlas(key: string, atlasJson: string|object, baseUrl?: string): void
     {
-        if (this.scene.textures.exists(key)) return;
-        this.scene.load.multiatlas(key, atlasJson as any, baseUrl);
+        if (this.scene.textures.exists(key)) return this.share(key);
         // const multiFile = this.scene.load.list.entries[this.scene.load.list.size - 1].multiFile;
-        this.loadedTypeByKey[key] = { type: 'image' };
-        this.pendingLoad = true;
+        this.track(key, { type: 'image' }, mapUrl =>
+        {
+            this.scene.load.multiatlas(key, typeof atlasJson == 'string' ? mapUrl(atlasJson) : atlasJson as any, baseUrl);
+        });
     }
 
     public image(key: string, url: string): void
     {
-        if (this.scene.textures.exists(key)) return;
-        this.scene.load.image(key, url);
-        this.loadedTypeByKey[key] = { type: 'image' };
-        this.pendingLoad = true;
+        if (this.scene.textures.exists(key)) return this.share(key);
+        this.track(key, { type: 'image' }, mapUrl => { this.scene.load.image(key, mapUrl(url)); });
+    }
+
+    public bitmapFont(key: string, textureUrl: string, fontDataUrl: string): void
+    {
+        if (this.scene.cache.bitmapFont.has(key)) return this.share(key);
+        this.track(key, { type: 'bitmapFont' }, mapUrl =>
+        {
+            this.scene.load.bitmapFont(key, mapUrl(textureUrl), mapUrl(fontDataUrl));
+        });
+    }
+
+    public video(key: string, urls: string|string[], noAudio = false): void
+    {
+        if (this.scene.cache.video.has(key)) return this.share(key);
+        const urlList = Array.isArray(urls) ? urls : [urls];
+        this.track(key, { type: 'video' }, mapUrl =>
+        {
+            this.scene.load.video(key, urlList.map(mapUrl), undefined, false, noAudio);
+        });
+    }
+
+    /** Loads a Tiled map exported as JSON. */
+    public tilemap(key: string, url: string): void
+    {
+        if (this.scene.cache.tilemap.has(key)) return this.share(key);
+        this.track(key, { type: 'tilemap' }, mapUrl => { this.scene.load.tilemapTiledJSON(key, mapUrl(url)); });
+    }
+
+    public svg(key: string, url: string, svgConfig?: Phaser.Types.Loader.FileTypes.SVGSizeConfig): void
+    {
+        if (this.scene.textures.exists(key)) return this.share(key);
+        this.track(key, { type: 'svg' }, mapUrl => { this.scene.load.svg(key, mapUrl(url), svgConfig); });
+    }
+
+    /** Loads a GLSL shader. shaderType is 'fragment' or 'vertex'. */
+    public glsl(key: string, url: string, shaderType = 'fragment'): void
+    {
+        if (this.scene.cache.shader.has(key)) return this.share(key);
+        this.track(key, { type: 'glsl' }, mapUrl => { this.scene.load.glsl(key, mapUrl(url), shaderType); });
+    }
+
+    public text(key: string, url: string): void
+    {
+        if (this.scene.cache.text.has(key)) return this.share(key);
+        this.track(key, { type: 'text' }, mapUrl => { this.scene.load.text(key, mapUrl(url)); });
+    }
+
+    public xml(key: string, url: string): void
+    {
+        if (this.scene.cache.xml.has(key)) return this.share(key);
+        this.track(key, { type: 'xml' }, mapUrl => { this.scene.load.xml(key, mapUrl(url)); });
+    }
+
+    /**
+     * Loads a web font with the FontFace API, so that it can be used by Text objects. The key is used
+     * as the font family name.
+     */
+    public webfont(key: string, url: string, descriptors?: FontFaceDescriptors): void
+    {
+        if (this.registry?.has(key)) return this.share(key);
+        this.track(key, { type: 'webfont' }, mapUrl =>
+        {
+            this.fontQueue.push({ key, url: mapUrl(url), descriptors });
+        });
     }
 
     /** Returns a promise with the loaded sound */
     public audio(key: string, urls: string[], volume = 1, loop = false): Promise<Sound>
     {
-        if (this.scene.cache.audio.has(key)) return Promise.resolve(this.scene.sound.get(key) as Sound);
+        if (this.scene.cache.audio.has(key))
+        {
+            this.share(key);
+            return Promise.resolve(this.scene.sound.get(key) as Sound);
+        }
         if (!urls)
         {
             console.error('Audio has no urls', key, urls);
             return Promise.reject('Audio has no urls');
         }
-        this.pendingLoad = true;
         // if (__DEV__)
         // {
         //     if (urls.length < 3)
@@ -129,29 +549,116 @@ export class ManagedLoader
         //         console.warn(`Warning! Audio ${key} does not fall back to mp3!`, urls);
         //     }
         // }
-        this.scene.load.audio(key, urls);
-        this.loadedTypeByKey[key] = { type: 'audio' };
-        return new Promise(resolve =>
+        const sound = this.waitForSound(key, volume, loop);
+        this.track(key, { type: 'audio' }, mapUrl =>
+        {
+            // if this is being retried after failing for good, the original promise was already rejected,
+            // but we still want the sound to be created
+            if (!this.failureHandlers[key])
+            {
+                this.waitForSound(key, volume, loop).catch(() => null);
+            }
+            this.scene.load.audio(key, urls.map(mapUrl));
+        });
+        return sound;
+    }
+
+    /** Creates the sound for an audio file when it finishes loading, rejecting if it fails to load. */
+    private waitForSound(key: string, volume: number, loop: boolean): Promise<Sound>
+    {
+        return this.waitForFile(key, () => true, () =>
+        {
+            if (!this.scene.cache.audio.get(key))
+            {
+                console.error('cannot add audio file from cache, are you loading something else with the same key? ', key);
+                throw new Error(`Audio ${key} is not in the cache`);
+            }
+            return this.scene.sound.add(key, {volume, loop}) as Sound;
+        });
+    }
+
+    /**
+     * Waits for a file to finish loading, then resolves with whatever create() makes from it. Rejects if the file
+     * fails to load or create() throws.
+     * @param isReady Checked for each completed file with the key, for files made up of several files.
+     */
+    private waitForFile<T>(key: string, isReady: () => boolean, create: () => T): Promise<T>
+    {
+        return new Promise((resolve, reject) =>
         {
             const fileLoaded = (loadedKey: string) =>
             {
-                if (loadedKey === key)
+                if (loadedKey !== key || !isReady()) return;
+                this.scene.load.off('filecomplete', fileLoaded);
+                delete this.failureHandlers[key];
+                try
                 {
-                    this.scene.load.off('filecomplete', fileLoaded);
-                    if (this.scene.cache.audio.get(key))
-                    {
-                        resolve(this.scene.sound.add(key, {volume, loop}) as Sound);
-                    }
-                    else
-                    {
-                        console.error('cannot add audio file from cache, are you loading something else with the same key? ', key);
-                    }
+                    resolve(create());
+                }
+                catch (e)
+                {
+                    reject(e);
                 }
             };
             this.scene.load.on('filecomplete', fileLoaded);
+            this.failureHandlers[key] = failure =>
+            {
+                this.scene.load.off('filecomplete', fileLoaded);
+                reject(new Error(`${key} failed to load (${failure.reason})`));
+            };
         });
     }
 
+    /**
+     * Loads an audio sprite - one audio file with a json map of markers. Returns a promise with a sound for
+     * each marker, by marker name. Marker sounds can also be found later with getSpriteSound().
+     */
+    public audioSprite(key: string, jsonUrl: string, urls: string[], volume = 1): Promise<Map<string, Sound>>
+    {
+        if (this.scene.cache.audio.has(key))
+        {
+            const existing = this.isLoadedOrLoading(key);
+            this.share(key);
+            return Promise.resolve(existing ? this.getSpriteSounds(key) : this.addSpriteSounds(key, volume));
+        }
+        const isReady = () => this.scene.cache.json.has(key) && this.scene.cache.audio.has(key);
+        const sounds = this.waitForFile(key, isReady, () => this.addSpriteSounds(key, volume));
+        this.track(key, { type: 'audioSprite' }, mapUrl =>
+        {
+            // as with audio(), make sure the sounds are created when retrying after failing for good
+            if (!this.failureHandlers[key])
+            {
+                this.waitForFile(key, isReady, () => this.addSpriteSounds(key, volume)).catch(() => null);
+            }
+            this.scene.load.audioSprite(key, mapUrl(jsonUrl), urls.map(mapUrl));
+        });
+        return sounds;
+    }
+
+    /** Gets the sound for a marker of an audio sprite loaded with audioSprite(). */
+    public getSpriteSound(marker: string): Sound|null
+    {
+        return this.spriteSounds.get(marker) ?? null;
+    }
+
+    private addSpriteSounds(key: string, volume: number): Map<string, Sound>
+    {
+        const sounds = createSpriteSounds(this.scene.sound, key, volume);
+        sounds.forEach((sound, marker) => this.spriteSounds.set(marker, sound));
+        return sounds;
+    }
+
+    /** Gets our marker sounds for an audio sprite. */
+    private getSpriteSounds(key: string): Map<string, Sound>
+    {
+        const sounds = new Map<string, Sound>();
+        this.spriteSounds.forEach((sound, marker) =>
+        {
+            if (sound.key === key) sounds.set(marker, sound);
+        });
+        return sounds;
+    }
+
     /**
      * Preloads everything in a dictionary of dialogue objects. Note that the paths must be hooked up through
      * webpack.
@@ -207,9 +714,21 @@ export class ManagedLoader
             }
             // skip anything excluded
             if (shouldSkip) continue;
-            if (!data.audio || !Array.isArray(data.audio))
+            const captions = this.localize(data.captions);
+            if (captions)
+            {
+                this.text(captionsKey(id), captions);
+            }
+            const isLocalized = (value: unknown) => !!value && typeof value == 'object' && !Array.isArray(value);
+            if ((isLocalized(data.audio) || isLocalized(data.captions)) && !this.localizedAudio.includes(data))
             {
-                if (!data.audio)
+                this.localizedAudio.push(data);
+            }
+            if (data.sprite) continue;
+            const audio = this.localize(data.audio);
+            if (!audio || !Array.isArray(audio))
+            {
+                if (!audio)
                 {
                     console.warn(`Audio entry '${id}' is invalid, because no audio paths were provided.`, data);
                 }
@@ -223,56 +742,215 @@ export class ManagedLoader
             if (data.audioObj) continue;
 
             // load, then set on the object for later use
-            this.audio(id, data.audio, data.volume).then(sound => data.audioObj = sound);
+            // failures are reported by load(), so there is nothing else to do with them here
+            this.audio(id, audio, data.volume).then(sound => data.audioObj = sound, () => null);
+        }
+    }
+
+    /**
+     * Unloads all localized audio and captions, after the locale has changed. When several loaders are
+     * changing locale, they should all do this before any reloads, so that audio they share is let go of.
+     */
+    public unloadLocalizedAudio(): void
+    {
+        for (const data of this.localizedAudio)
+        {
+            this.unload([data.id!, captionsKey(data.id!)]);
+            delete data.audioObj;
+        }
+    }
+
+    /**
+     * Reloads all localized audio and captions for the current locale, after the locale has changed.
+     */
+    public async reloadLocalizedAudio(): Promise<LoadReport>
+    {
+        this.unloadLocalizedAudio();
+        const entries = this.localizedAudio;
+        this.localizedAudio = [];
+        for (const data of entries)
+        {
+            // make sure the old locale's versions don't stick around to be reused
+            [data.id!, captionsKey(data.id!)].forEach(key => this.registry?.evict(key));
+        }
+        this.preloadAudioList(entries);
+        return this.load();
+    }
+
+    /**
+     * Adds the groups from a manifest, so that they can be loaded by name. Groups with the same name as an
+     * existing group replace it.
+     */
+    public addManifest(manifest: AssetManifest): void
+    {
+        Object.assign(this.manifestGroups, manifest.groups);
+    }
+
+    /**
+     * Adds a manifest (or the url to one), and queues up its preload groups. Call load() to load them.
+     * Resolves with a report of anything that failed to load - if the manifest or the dialogue data it points to
+     * fails, nothing is queued. Groups that are already queued are skipped, so this can be called again after
+     * retryFailed().
+     */
+    public async queueManifest(manifest: string|AssetManifest): Promise<LoadReport>
+    {
+        let resolved = manifest as AssetManifest;
+        if (typeof manifest == 'string')
+        {
+            const report = await this.loadContent([manifest]);
+            if (!report.ok) return report;
+            resolved = this.scene.cache.json.get(manifest);
+        }
+        this.addManifest(resolved);
+        const groups = (resolved.preload || Object.keys(resolved.groups)).filter(group => !this.keysByGroup[group]);
+        // load dialogue data for all of the groups up front, so that a failure doesn't leave them half queued
+        const urls: string[] = [];
+        groups.forEach(group => urls.push(...this.getDialogueUrls(group)));
+        const report = await this.loadContent(urls);
+        if (!report.ok) return report;
+        for (const group of groups)
+        {
+            await this.queueGroup(group);
+        }
+        return report;
+    }
+
+    /**
+     * Queues up all assets in a manifest group. Call load() to load them.
+     * Resolves with a report of any dialogue data that failed to load, in which case nothing is queued.
+     */
+    public async queueGroup(name: string): Promise<LoadReport>
+    {
+        const entries = this.manifestGroups[name];
+        if (!entries)
+        {
+            console.error(`Unknown asset group '${name}'`);
+            return { ok: true, failed: [] };
+        }
+        const report = await this.loadContent(this.getDialogueUrls(name));
+        if (!report.ok) return report;
+        const keys: string[] = [];
+        for (const entry of entries)
+        {
+            switch (entry.type)
+            {
+                case 'json': this.json(entry.key, entry.url); break;
+                case 'atlas': this.atlas(entry.key, entry.url); break;
+                case 'spritesheet': this.spritesheet(entry.key, entry.url, entry.frameConfig); break;
+                case 'spine': this.spine(entry.key, entry.skeleton, entry.atlas, entry.premultipliedAlpha); break;
+                case 'multiatlas': this.multiatlas(entry.key, entry.url, entry.baseUrl); break;
+                case 'image': this.image(entry.key, entry.url); break;
+                case 'audio': this.audio(entry.key, entry.urls, entry.volume, entry.loop).catch(() => null); break;
+                case 'bitmapFont': this.bitmapFont(entry.key, entry.textureUrl, entry.fontDataUrl); break;
+                case 'video': this.video(entry.key, entry.urls, entry.noAudio); break;
+                case 'tilemap': this.tilemap(entry.key, entry.url); break;
+                case 'svg': this.svg(entry.key, entry.url, entry.svgConfig); break;
+                case 'glsl': this.glsl(entry.key, entry.url, entry.shaderType); break;
+                case 'text': this.text(entry.key, entry.url); break;
+                case 'xml': this.xml(entry.key, entry.url); break;
+                case 'audioSprite': this.audioSprite(entry.key, entry.jsonUrl, entry.urls, entry.volume).catch(() => null); break;
+                case 'webfont': this.webfont(entry.key, entry.url, entry.descriptors); break;
+                case 'dialogue':
+                {
+                    const data = typeof entry.data == 'string' ? this.scene.cache.json.get(entry.data) : entry.data;
+                    Object.assign(this.dialogue, data);
+                    this.preloadAudioObject(data, entry.exclude);
+                    keys.push(...Object.keys(data));
+                    continue;
+                }
+                default:
+                    console.error('Unknown manifest entry type', entry);
+                    continue;
+            }
+            keys.push(entry.key);
         }
+        this.keysByGroup[name] = keys;
+        return report;
+    }
+
+    /** Loads all assets in a manifest group, for loading things at runtime. */
+    public async loadGroup(name: string): Promise<LoadReport>
+    {
+        const report = await this.queueGroup(name);
+        if (!report.ok) return report;
+        return this.load();
+    }
+
+    /** Urls of dialogue data files in a manifest group. */
+    private getDialogueUrls(name: string): string[]
+    {
+        const urls: string[] = [];
+        for (const entry of this.manifestGroups[name] || [])
+        {
+            if (entry.type == 'dialogue' && typeof entry.data == 'string')
+            {
+                urls.push(entry.data);
+            }
+        }
+        return urls;
+    }
+
+    /**
+     * Loads json files that are needed before assets can be queued up (manifests and dialogue data). They go
+     * through the loader like everything else, for the same retries, timeout and fallbacks, and are tracked
+     * under their urls to be unloaded with everything else.
+     */
+    private async loadContent(urls: string[]): Promise<LoadReport>
+    {
+        let needsLoad = false;
+        for (const url of urls)
+        {
+            needsLoad = needsLoad || !this.scene.cache.json.has(url);
+            // already tracked if we loaded it before, or it was queued up again by retryFailed()
+            if (!this.isLoadedOrLoading(url))
+            {
+                this.json(url, url);
+            }
+        }
+        // if it was all loaded already, don't start loading whatever else has been queued up
+        if (!needsLoad) return { ok: true, failed: [] };
+        return this.load();
+    }
+
+    /**
+     * Unloads the assets in a manifest group, except for any that are also in another loaded group.
+     */
+    public unloadGroup(name: string): void
+    {
+        const keys = this.keysByGroup[name];
+        if (!keys) return;
+        delete this.keysByGroup[name];
+        const stillNeeded = new Set<string>();
+        for (const group in this.keysByGroup)
+        {
+            this.keysByGroup[group].forEach(key => stillNeeded.add(key));
+        }
+        this.unload(keys.filter(key => !stillNeeded.has(key)));
     }
 
     public unload(keys: string[]): void
     {
+        const registry = this.registry;
         for (const key of keys)
         {
             const info = this.loadedTypeByKey[key];
             if (!info) continue;
-            switch (info.type)
+            if (info.type == 'audioSprite')
             {
-                case 'image':
-                    this.scene.textures.remove(key);
-                    break;
-                case 'json':
-                    this.scene.cache.json.remove(key);
-                    break;
-                case 'audio':
-                    this.scene.sound.removeByKey(key);
-                    this.scene.cache.audio.remove(key);
-                    break;
-                case 'atlas':
-                    this.scene.textures.remove(key);
-                    this.scene.cache.json.remove(key);
-                    break;
-                case 'spritesheet':
-                    this.scene.textures.remove(key);
-                    break;
-                case 'spine':
-                    for (const file of info!.multiFile!.files)
-                    {
-                        // cache reference on the file is null, so we need to manually remove from the cache
-                        // for the cached subfiles
-                        switch (file.type)
-                        {
-                            case 'json':
-                                this.scene.cache.json.remove(file.key);
-                                break;
-                            case 'image':
-                                this.scene.textures.remove(file.key);
-                                break;
-                        }
-                    }
-                    this.scene.cache.custom.spine.remove(key);
-                    if (this.scene.cache.custom.spineTextures.has(key))
-                    {
-                        this.scene.cache.custom.spineTextures.remove(key);
-                    }
-                    break;
+                this.getSpriteSounds(key).forEach((sound, marker) =>
+                {
+                    this.spriteSounds.delete(marker);
+                    sound.destroy();
+                });
+            }
+            if (registry)
+            {
+                // only actually gets unloaded if nothing else is using it
+                registry.release(key, this);
+            }
+            else
+            {
+                unloadAsset(this.scene.game, key, info);
             }
             delete this.loadedTypeByKey[key];
         }
@@ -280,6 +958,7 @@ export class ManagedLoader
 
     public unloadAll(): void
     {
+        this.keysByGroup = {};
         this.unload(Object.keys(this.loadedTypeByKey));
     }
 }
\ No newline at end of file
@@ -1 +1,7 @@
-export * from './BaseScene';
\ No newline at end of file
+export * from './BaseScene';
+export * from './ManagedLoader';
+export * from './LoadProgress';
+export * from './AssetRegistry';
+export * from './AssetManifest';
+export * from './Captions';
+export * from './DialogueRunner';
\ No newline at end of file
@@ -0,0 +1,176 @@
+/* eslint-disable @typescript-eslint/naming-convention -- method names are defined by the SCORM spec */
+import type { KeyValueStorage } from '../storage';
+import type { LmsApi, Scorm12Api, Scorm2004Api, ScormVersion } from './ScormApi';
+
+/** Error codes that are the same in both versions. */
+const NO_ERROR = '0';
+const GENERAL_ERROR = '101';
+
+/**
+ * A stand-in for an LMS's SCORM API, for developing and testing outside of an LMS. It implements both
+ * versions' methods and keeps values in memory, or in a KeyValueStorage (like localStorage) to simulate
+ * resuming across page loads.
+ */
+export class MockLmsApi implements Scorm12Api, Scorm2004Api
+{
+    public readonly version: ScormVersion;
+    /** All values set, by CMI element. */
+    public values: {[element: string]: string};
+    public initialized: boolean;
+    /** Number of times values were committed. */
+    public commits: number;
+    private lastError: string;
+    private storage: KeyValueStorage|null;
+    private storageKey: string;
+
+    constructor(version: ScormVersion = '2004', storage: KeyValueStorage|null = null, storageKey = 'mockLms')
+    {
+        this.version = version;
+        this.storage = storage;
+        this.storageKey = storageKey;
+        this.initialized = false;
+        this.commits = 0;
+        this.lastError = NO_ERROR;
+        this.values = JSON.parse(storage?.getItem(storageKey) || '{}');
+    }
+
+    /** Gets this as an LmsApi for ScormOptions.api. */
+    public get lmsApi(): LmsApi
+    {
+        return this.version == '1.2' ? { version: '1.2', api: this } : { version: '2004', api: this };
+    }
+
+    /** Adds this to a window as `API` or `API_1484_11`, to be found by findLmsApi(). */
+    public install(win: Window = window): void
+    {
+        (win as any)[this.version == '1.2' ? 'API' : 'API_1484_11'] = this;
+    }
+
+    public Initialize(): string
+    {
+        if (this.initialized) return this.fail(this.version == '1.2' ? GENERAL_ERROR : '103');
+        this.initialized = true;
+        // a learner with a previous session in progress is resuming it
+        const exit = this.values[this.element('exit')];
+        this.values[this.element('entry')] = exit == 'suspend' ? 'resume' : 'ab-initio';
+        return this.succeed();
+    }
+
+    public Terminate(): string
+    {
+        if (!this.initialized) return this.fail(this.notInitialized);
+        this.Commit();
+        this.initialized = false;
+        return this.succeed();
+    }
+
+    public GetValue(element: string): string
+    {
+        if (!this.initialized)
+        {
+            this.fail(this.notInitialized);
+            return '';
+        }
+        this.succeed();
+        return this.values[element] ?? '';
+    }
+
+    public SetValue(element: string, value: string): string
+    {
+        if (!this.initialized) return this.fail(this.notInitialized);
+        this.values[element] = String(value);
+        return this.succeed();
+    }
+
+    public Commit(): string
+    {
+        if (!this.initialized) return this.fail(this.notInitialized);
+        ++this.commits;
+        this.storage?.setItem(this.storageKey, JSON.stringify(this.values));
+        return this.succeed();
+    }
+
+    public GetLastError(): string
+    {
+        return this.lastError;
+    }
+
+    public GetErrorString(errorCode: string): string
+    {
+        switch (errorCode)
+        {
+            case NO_ERROR: return 'No error';
+            case this.notInitialized: return 'Not initialized';
+            default: return 'General error';
+        }
+    }
+
+    public GetDiagnostic(errorCode: string): string
+    {
+        return this.GetErrorString(errorCode);
+    }
+
+    // SCORM 1.2 names for the same methods
+
+    public LMSInitialize(): string
+    {
+        return this.Initialize();
+    }
+
+    public LMSFinish(): string
+    {
+        return this.Terminate();
+    }
+
+    public LMSGetValue(element: string): string
+    {
+        return this.GetValue(element);
+    }
+
+    public LMSSetValue(element: string, value: string): string
+    {
+        return this.SetValue(element, value);
+    }
+
+    public LMSCommit(): string
+    {
+        return this.Commit();
+    }
+
+    public LMSGetLastError(): string
+    {
+        return this.GetLastError();
+    }
+
+    public LMSGetErrorString(errorCode: string): string
+    {
+        return this.GetErrorString(errorCode);
+    }
+
+    public LMSGetDiagnostic(errorCode: string): string
+    {
+        return this.GetDiagnostic(errorCode);
+    }
+
+    private get notInitialized(): string
+    {
+        return this.version == '1.2' ? '301' : '132';
+    }
+
+    private element(name: 'entry'|'exit'): string
+    {
+        return this.version == '1.2' ? `cmi.core.${name}` : `cmi.${name}`;
+    }
+
+    private succeed(): string
+    {
+        this.lastError = NO_ERROR;
+        return 'true';
+    }
+
+    private fail(code: string): string
+    {
+        this.lastError = code;
+        return 'false';
+    }
+}
@@ -0,0 +1,381 @@
+import Phaser from 'phaser';
+import type { AnalyticsEvent, AnalyticsSink } from '../analytics';
+import type { KeyValueStorage } from '../storage';
+import type { BaseGame } from '../game/BaseGame';
+import { findLmsApi, LmsApi, ScormVersion } from './ScormApi';
+
+/** CMI data model elements that differ between versions, as [SCORM 1.2, SCORM 2004]. */
+const ELEMENTS = {
+    location: ['cmi.core.lesson_location', 'cmi.location'],
+    suspendData: ['cmi.suspend_data', 'cmi.suspend_data'],
+    entry: ['cmi.core.entry', 'cmi.entry'],
+    exit: ['cmi.core.exit', 'cmi.exit'],
+    sessionTime: ['cmi.core.session_time', 'cmi.session_time'],
+    scoreRaw: ['cmi.core.score.raw', 'cmi.score.raw'],
+    scoreMin: ['cmi.core.score.min', 'cmi.score.min'],
+    scoreMax: ['cmi.core.score.max', 'cmi.score.max'],
+};
+type Element = keyof typeof ELEMENTS;
+
+/** Max lengths of fields we write, which are much shorter in SCORM 1.2. */
+const LIMITS = {
+    location: [255, 1000],
+    suspendData: [4096, 64000],
+};
+
+export interface ScormOptions
+{
+    /** The LMS API to use. Defaults to searching for one with findLmsApi(). */
+    api?: LmsApi|null;
+    /**
+     * Scene ids that must all be completed (see BaseGame.completeScene()) for the course to be complete.
+     * If not given, completion must be set with setCompleted().
+     */
+    requiredScenes?: string[];
+    /** Scaled score (0-1) at or above which the learner passes. Without one, only completion is reported. */
+    passingScore?: number;
+}
+
+/** Key in suspend data that completed scenes are kept under. */
+const COMPLETED_KEY = '__completed__';
+
+/**
+ * Connects a game to a SCORM 1.2 or 2004 LMS. Pass it to BaseGame as `scorm` to have the session initialized
+ * and terminated with the game, the learner's location kept up to date and scene completion reported. Use
+ * `storage` as the game's save storage to keep saves in the LMS's suspend data.
+ * If no LMS is found, everything is a no-op, so that the game can run outside of an LMS.
+ */
+export class ScormAdapter implements AnalyticsSink
+{
+    private lms: LmsApi|null;
+    private options: ScormOptions;
+    private initialized: boolean;
+    private startTime: number;
+    /** Parsed suspend data, which is a JSON object of string values. */
+    private suspendData: {[key: string]: string}|null;
+    /** Storage backed by the LMS's suspend data. */
+    public readonly storage: KeyValueStorage;
+
+    constructor(options: ScormOptions = {})
+    {
+        this.lms = options.api === undefined ? findLmsApi() : options.api;
+        this.options = options;
+        this.initialized = false;
+        this.startTime = 0;
+        this.suspendData = null;
+        this.storage = {
+            getItem: key => this.getSuspendData()[key] ?? null,
+            setItem: (key, value) => this.setSuspendData(key, value),
+            removeItem: key => this.setSuspendData(key, null),
+        };
+    }
+
+    /** The SCORM version of the LMS, or null if there isn't one. */
+    public get version(): ScormVersion|null
+    {
+        return this.lms?.version ?? null;
+    }
+
+    /** If connected to an LMS with an active session. */
+    public get active(): boolean
+    {
+        return this.initialized;
+    }
+
+    /** If the learner is returning to a session they left part way through. */
+    public get isResuming(): boolean
+    {
+        return this.getValue('entry') == 'resume';
+    }
+
+    /**
+     * Ties the LMS session to the game: initializes it now, and terminates it when the game is destroyed or
+     * the page is closed.
+     */
+    public attach(game: BaseGame<any, any>): void
+    {
+        this.initialize();
+        game.analytics.addSink(this);
+        game.events.once(Phaser.Core.Events.DESTROY, () => this.terminate());
+        // LMSes can be slow to notice the page going away, so commit whenever it is hidden
+        game.events.on(Phaser.Core.Events.HIDDEN, () => this.commit());
+        window.addEventListener('pagehide', () => this.terminate());
+        window.addEventListener('beforeunload', () => this.terminate());
+        game.lifecycle.on('sceneCompleted', ({ id }) => this.completeScene(id));
+    }
+
+    /** Starts the LMS session. Returns false if there is no LMS or it refused. */
+    public initialize(): boolean
+    {
+        if (this.initialized || !this.lms) return this.initialized;
+        const result = this.lms.version == '1.2' ? this.lms.api.LMSInitialize('') : this.lms.api.Initialize('');
+        this.initialized = result === 'true';
+        if (!this.initialized)
+        {
+            console.error('Unable to initialize LMS session', this.lastError);
+            return false;
+        }
+        this.startTime = Date.now();
+        return true;
+    }
+
+    /** Ends the LMS session, recording the session time. Safe to call more than once. */
+    public terminate(): void
+    {
+        if (!this.initialized || !this.lms) return;
+        this.setValue('sessionTime', this.formatSessionTime(Date.now() - this.startTime));
+        // suspend, so that the learner can resume - completion is tracked separately
+        this.setValue('exit', 'suspend');
+        this.commit();
+        if (this.lms.version == '1.2')
+        {
+            this.lms.api.LMSFinish('');
+        }
+        else
+        {
+            this.lms.api.Terminate('');
+        }
+        this.initialized = false;
+    }
+
+    public commit(): void
+    {
+        if (!this.initialized || !this.lms) return;
+        if (this.lms.version == '1.2')
+        {
+            this.lms.api.LMSCommit('');
+        }
+        else
+        {
+            this.lms.api.Commit('');
+        }
+    }
+
+    /** Follows the game's scenes through analytics events, to keep the learner's location up to date. */
+    public send(event: AnalyticsEvent): void
+    {
+        if (event.type == 'sceneEntered')
+        {
+            const { sceneId, args } = event.data as { sceneId: string, args: unknown };
+            let location = JSON.stringify({ sceneId, args });
+            if (location.length > LIMITS.location[this.versionIndex])
+            {
+                // the scene id alone is better than nothing
+                location = JSON.stringify({ sceneId });
+            }
+            this.setLocation(location);
+        }
+    }
+
+    /** Sets where the learner is. Kept up to date as JSON of the current scene id and args when attached to a game. */
+    public setLocation(location: string): void
+    {
+        const limit = LIMITS.location[this.versionIndex];
+        if (location.length > limit)
+        {
+            console.warn(`LMS location is over the limit (${location.length} > ${limit}), the LMS may reject it`);
+        }
+        this.setValue('location', location);
+    }
+
+    public getLocation(): string
+    {
+        return this.getValue('location');
+    }
+
+    /**
+     * Records a score. Scores are reported as passed/failed if a passing score was given in the options.
+     */
+    public setScore(raw: number, min = 0, max = 100): void
+    {
+        this.setValue('scoreMin', String(min));
+        this.setValue('scoreMax', String(max));
+        this.setValue('scoreRaw', String(raw));
+        const scaled = max > min ? (raw - min) / (max - min) : 0;
+        if (this.lms?.version == '2004')
+        {
+            this.setRawValue('cmi.score.scaled', scaled.toFixed(4));
+        }
+        if (this.options.passingScore !== undefined)
+        {
+            this.setSuccess(scaled >= this.options.passingScore);
+        }
+        this.commit();
+    }
+
+    /** Marks the course as completed, and optionally as passed or failed. */
+    public setCompleted(passed?: boolean): void
+    {
+        if (this.lms?.version == '1.2')
+        {
+            this.setRawValue('cmi.core.lesson_status', passed === undefined ? 'completed' : passed ? 'passed' : 'failed');
+        }
+        else
+        {
+            this.setRawValue('cmi.completion_status', 'completed');
+            if (passed !== undefined)
+            {
+                this.setSuccess(passed);
+            }
+        }
+        this.commit();
+    }
+
+    /**
+     * Records that a scene was completed. If all required scenes are complete, the course is marked as completed.
+     */
+    public completeScene(sceneId: string): void
+    {
+        const completed = this.completedScenes;
+        if (!completed.includes(sceneId))
+        {
+            completed.push(sceneId);
+            this.setSuspendData(COMPLETED_KEY, JSON.stringify(completed));
+        }
+        const required = this.options.requiredScenes;
+        if (required?.length && required.every(id => completed.includes(id)))
+        {
+            this.setCompleted();
+        }
+        else
+        {
+            this.setIncomplete();
+        }
+    }
+
+    /** Ids of scenes completed so far, including in previous sessions. */
+    public get completedScenes(): string[]
+    {
+        const data = this.getSuspendData()[COMPLETED_KEY];
+        return data ? JSON.parse(data) : [];
+    }
+
+    /** Gets a raw CMI data model value, for anything not covered by this adapter. */
+    public getRawValue(element: string): string
+    {
+        if (!this.initialized || !this.lms) return '';
+        return this.lms.version == '1.2' ? this.lms.api.LMSGetValue(element) : this.lms.api.GetValue(element);
+    }
+
+    /** Sets a raw CMI data model value, for anything not covered by this adapter. */
+    public setRawValue(element: string, value: string): boolean
+    {
+        if (!this.initialized || !this.lms) return false;
+        const result = this.lms.version == '1.2' ? this.lms.api.LMSSetValue(element, value) : this.lms.api.SetValue(element, value);
+        if (result !== 'true')
+        {
+            console.error(`Unable to set LMS value ${element}`, this.lastError);
+            return false;
+        }
+        return true;
+    }
+
+    /** The LMS's last error, as a code and description. */
+    public get lastError(): string
+    {
+        if (!this.lms) return '';
+        if (this.lms.version == '1.2')
+        {
+            const code = this.lms.api.LMSGetLastError();
+            return `${code}: ${this.lms.api.LMSGetErrorString(code)}`;
+        }
+        const code = this.lms.api.GetLastError();
+        return `${code}: ${this.lms.api.GetErrorString(code)}`;
+    }
+
+    private get versionIndex(): number
+    {
+        return this.lms?.version == '2004' ? 1 : 0;
+    }
+
+    private getValue(element: Element): string
+    {
+        return this.getRawValue(ELEMENTS[element][this.versionIndex]);
+    }
+
+    private setValue(element: Element, value: string): boolean
+    {
+        return this.setRawValue(ELEMENTS[element][this.versionIndex], value);
+    }
+
+    private setSuccess(passed: boolean): void
+    {
+        if (this.lms?.version == '1.2')
+        {
+            this.setRawValue('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+        }
+        else
+        {
+            this.setRawValue('cmi.success_status', passed ? 'passed' : 'failed');
+        }
+    }
+
+    /** Marks the course as started but not completed, unless it already has a final status. */
+    private setIncomplete(): void
+    {
+        if (this.lms?.version == '1.2')
+        {
+            const status = this.getRawValue('cmi.core.lesson_status');
+            if (status == 'not attempted' || status == 'browsed' || !status)
+            {
+                this.setRawValue('cmi.core.lesson_status', 'incomplete');
+            }
+        }
+        else if (this.getRawValue('cmi.completion_status') != 'completed')
+        {
+            this.setRawValue('cmi.completion_status', 'incomplete');
+        }
+    }
+
+    private getSuspendData(): {[key: string]: string}
+    {
+        if (!this.suspendData)
+        {
+            try
+            {
+                this.suspendData = JSON.parse(this.getValue('suspendData') || '{}');
+            }
+            catch (e)
+            {
+                console.error('Unable to parse LMS suspend data', e);
+            }
+            this.suspendData = this.suspendData || {};
+        }
+        return this.suspendData;
+    }
+
+    private setSuspendData(key: string, value: string|null): void
+    {
+        const data = this.getSuspendData();
+        if (value === null)
+        {
+            delete data[key];
+        }
+        else
+        {
+            data[key] = value;
+        }
+        const json = JSON.stringify(data);
+        const limit = LIMITS.suspendData[this.versionIndex];
+        if (json.length > limit)
+        {
+            console.warn(`LMS suspend data is over the limit (${json.length} > ${limit}), the LMS may truncate it`);
+        }
+        this.setValue('suspendData', json);
+    }
+
+    /** Formats milliseconds as a SCORM 1.2 CMITimespan (HHHH:MM:SS.SS) or SCORM 2004 ISO 8601 duration. */
+    private formatSessionTime(ms: number): string
+    {
+        const totalSeconds = ms / 1000;
+        const hours = Math.floor(totalSeconds / 3600);
+        const minutes = Math.floor(totalSeconds / 60) % 60;
+        const seconds = totalSeconds % 60;
+        if (this.lms?.version == '2004')
+        {
+            return `PT${hours}H${minutes}M${seconds.toFixed(2)}S`;
+        }
+        const pad = (n: number, length: number) => String(n).padStart(length, '0');
+        return `${pad(hours, 4)}:${pad(minutes, 2)}:${seconds.toFixed(2).padStart(5, '0')}`;
+    }
+}
@@ -0,0 +1,64 @@
+/* eslint-disable @typescript-eslint/naming-convention -- method names are defined by the SCORM spec */
+export type ScormVersion = '1.2'|'2004';
+
+/** The API object a SCORM 1.2 LMS provides as `window.API`. */
+export interface Scorm12Api
+{
+    LMSInitialize(param: ''): string;
+    LMSFinish(param: ''): string;
+    LMSGetValue(element: string): string;
+    LMSSetValue(element: string, value: string): string;
+    LMSCommit(param: ''): string;
+    LMSGetLastError(): string;
+    LMSGetErrorString(errorCode: string): string;
+    LMSGetDiagnostic(errorCode: string): string;
+}
+
+/** The API object a SCORM 2004 LMS provides as `window.API_1484_11`. */
+export interface Scorm2004Api
+{
+    Initialize(param: ''): string;
+    Terminate(param: ''): string;
+    GetValue(element: string): string;
+    SetValue(element: string, value: string): string;
+    Commit(param: ''): string;
+    GetLastError(): string;
+    GetErrorString(errorCode: string): string;
+    GetDiagnostic(errorCode: string): string;
+}
+
+export type LmsApi = { version: '1.2', api: Scorm12Api }|{ version: '2004', api: Scorm2004Api };
+
+/** How many parent windows to search through, as recommended by ADL. */
+const MAX_PARENTS = 500;
+
+/** Looks for an LMS API on a window and its parents. */
+function searchParents(win: Window|null): LmsApi|null
+{
+    for (let i = 0; win && i < MAX_PARENTS; ++i)
+    {
+        try
+        {
+            const w = win as any;
+            if (w.API_1484_11) return { version: '2004', api: w.API_1484_11 };
+            if (w.API) return { version: '1.2', api: w.API };
+        }
+        catch (e)
+        {
+            // cross origin windows can't be searched, and neither can anything above them
+            return null;
+        }
+        if (win.parent === win) break;
+        win = win.parent;
+    }
+    return null;
+}
+
+/**
+ * Finds the LMS's SCORM API, searching this window's parents, then the window that opened it and its parents.
+ * SCORM 2004 is preferred if both are available.
+ */
+export function findLmsApi(win: Window = window): LmsApi|null
+{
+    return searchParents(win) ?? searchParents(win.opener);
+}
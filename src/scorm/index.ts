@@ -0,0 +1,3 @@
+export * from './ScormApi';
+export * from './ScormAdapter';
+export * from './MockLmsApi';
\ No newline at end of file
@@ -0,0 +1,56 @@
+/**
+ * Minimal string key/value storage, matching the parts of the Web Storage API that we use so that
+ * localStorage/sessionStorage can be used directly.
+ */
+export interface KeyValueStorage
+{
+    getItem(key: string): string|null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/** Storage that only lasts as long as the page, for tests or when localStorage isn't available. */
+export class MemoryStorage implements KeyValueStorage
+{
+    private data: Map<string, string>;
+
+    constructor()
+    {
+        this.data = new Map();
+    }
+
+    public getItem(key: string): string|null
+    {
+        return this.data.has(key) ? this.data.get(key)! : null;
+    }
+
+    public setItem(key: string, value: string): void
+    {
+        this.data.set(key, value);
+    }
+
+    public removeItem(key: string): void
+    {
+        this.data.delete(key);
+    }
+}
+
+/**
+ * Gets localStorage if it is usable, otherwise a MemoryStorage. Accessing localStorage can throw in
+ * sandboxed iframes or with cookies disabled, which is common in school environments.
+ */
+export function getLocalStorage(): KeyValueStorage
+{
+    try
+    {
+        const storage = window.localStorage;
+        const testKey = '__storage_test__';
+        storage.setItem(testKey, testKey);
+        storage.removeItem(testKey);
+        return storage;
+    }
+    catch (e)
+    {
+        return new MemoryStorage();
+    }
+}
@@ -0,0 +1,138 @@
+import { getLocalStorage, KeyValueStorage } from './KeyValueStorage';
+
+/** A saved game. */
+export interface SaveData<A = unknown>
+{
+    /** Version of the game's save schema that this was saved with. */
+    version: number;
+    /** When this was saved, in milliseconds since the epoch. */
+    savedAt: number;
+    /** Id of the scene the learner was in. */
+    sceneId: string;
+    /** Args that scene was started with. */
+    args: A;
+    /** The scene's own state, from BaseScene.serializeState(). */
+    state: unknown;
+    /** Game wide progress, set with SaveManager.setProgress(). */
+    progress: {[key: string]: unknown};
+}
+
+/** Upgrades save data from one schema version to the next. */
+export type SaveMigration = (data: any) => any;
+
+export interface SaveOptions
+{
+    /** Where to store saves. Defaults to localStorage. */
+    storage?: KeyValueStorage;
+    /** Key to store the save under, for games that share a domain. */
+    key?: string;
+    /** Current version of the game's save schema. Defaults to 1. */
+    version?: number;
+    /**
+     * Migrations by the version they upgrade from - migrations[1] turns version 1 data into version 2 data.
+     * Saves without a migration path to the current version are discarded.
+     */
+    migrations?: {[fromVersion: number]: SaveMigration};
+}
+
+/**
+ * Persists where the learner is in the game, and any game wide progress, to a KeyValueStorage.
+ */
+export class SaveManager<A>
+{
+    private storage: KeyValueStorage;
+    private key: string;
+    public readonly version: number;
+    private migrations: {[fromVersion: number]: SaveMigration};
+    private progress: {[key: string]: unknown};
+
+    constructor(options: SaveOptions = {})
+    {
+        this.storage = options.storage || getLocalStorage();
+        this.key = options.key || 'save';
+        this.version = options.version ?? 1;
+        this.migrations = options.migrations || {};
+        this.progress = this.load()?.progress ?? {};
+    }
+
+    /** Loads the save, migrating it to the current version if needed. Returns null if there is no usable save. */
+    public load(): SaveData<A>|null
+    {
+        let data: SaveData<A>;
+        try
+        {
+            const json = this.storage.getItem(this.key);
+            if (!json) return null;
+            data = JSON.parse(json);
+        }
+        catch (e)
+        {
+            console.error('Unable to read save data', e);
+            return null;
+        }
+        if (typeof data?.version != 'number' || data.version > this.version)
+        {
+            console.warn(`Ignoring save data with unsupported version ${data?.version}`);
+            return null;
+        }
+        while (data.version < this.version)
+        {
+            const migrate = this.migrations[data.version];
+            if (!migrate)
+            {
+                console.warn(`No migration for save data version ${data.version}, discarding it`);
+                return null;
+            }
+            const from = data.version;
+            data = migrate(data);
+            data.version = from + 1;
+        }
+        return data;
+    }
+
+    /** If there is a usable save. */
+    public get hasSave(): boolean
+    {
+        return !!this.load();
+    }
+
+    /** Saves the current scene. Progress is saved along with it. */
+    public save(sceneId: string, args: A, state: unknown): void
+    {
+        const data: SaveData<A> = {
+            version: this.version,
+            savedAt: Date.now(),
+            sceneId,
+            args,
+            state,
+            progress: this.progress,
+        };
+        try
+        {
+            this.storage.setItem(this.key, JSON.stringify(data));
+        }
+        catch (e)
+        {
+            // storage can be full or unavailable - not worth interrupting the game over
+            console.error('Unable to save', e);
+        }
+    }
+
+    /** Deletes the save, including progress. */
+    public clear(): void
+    {
+        this.progress = {};
+        this.storage.removeItem(this.key);
+    }
+
+    public getProgress<T>(key: string): T|undefined
+    {
+        return this.progress[key] as T|undefined;
+    }
+
+    /** Sets game wide progress, like which activities have been completed. It is saved with the next save. */
+    public setProgress(key: string, value: unknown): void
+    {
+        this.progress[key] = value;
+    }
+}
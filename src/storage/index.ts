@@ -0,0 +1,2 @@
+export * from './KeyValueStorage';
+export * from './SaveManager';
\ No newline at end of file
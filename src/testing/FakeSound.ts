@@ -0,0 +1,129 @@
+import Phaser from 'phaser';
+
+/** Length of sounds that weren't given one, in seconds. */
+const DEFAULT_DURATION = 1;
+
+/**
+ * A sound that doesn't make any noise, but otherwise behaves like a WebAudioSound - it plays for its duration as
+ * the game steps, then completes (or loops). It can be used anywhere the library expects a Sound.
+ */
+export class FakeSound extends Phaser.Sound.BaseSound
+{
+    public mute = false;
+    public volume = 1;
+    public loop = false;
+    /** Position in the sound (or the marker being played), in seconds. */
+    private position = 0;
+
+    constructor(manager: FakeSoundManager, key: string, config?: Phaser.Types.Sound.SoundConfig)
+    {
+        super(manager, key, config);
+        const duration = manager.getDuration(key);
+        // these are set by the audio data in the real thing
+        const self = this as unknown as {duration: number, totalDuration: number};
+        self.duration = self.totalDuration = duration;
+    }
+
+    public play(markerName?: string|Phaser.Types.Sound.SoundConfig, config?: Phaser.Types.Sound.SoundConfig): boolean
+    {
+        if (!super.play(markerName, config)) return false;
+        this.applyConfig();
+        this.position = (typeof markerName == 'object' ? markerName : config)?.seek ?? 0;
+        this.emit(Phaser.Sound.Events.PLAY, this);
+        return true;
+    }
+
+    public pause(): boolean
+    {
+        if (!super.pause()) return false;
+        this.emit(Phaser.Sound.Events.PAUSE, this);
+        return true;
+    }
+
+    public resume(): boolean
+    {
+        if (!super.resume()) return false;
+        this.emit(Phaser.Sound.Events.RESUME, this);
+        return true;
+    }
+
+    public stop(): boolean
+    {
+        if (!super.stop()) return false;
+        this.position = 0;
+        this.emit(Phaser.Sound.Events.STOP, this);
+        return true;
+    }
+
+    /** Position in the sound, in seconds. As with WebAudioSound, it is 0 when stopped, and can't be set then. */
+    public get seek(): number
+    {
+        return this.isPlaying || this.isPaused ? this.position : 0;
+    }
+
+    public set seek(value: number)
+    {
+        if (!this.isPlaying && !this.isPaused) return;
+        this.position = Phaser.Math.Clamp(value, 0, this.duration);
+        this.emit(Phaser.Sound.Events.SEEK, this, this.position);
+    }
+
+    protected update(_time: number, delta: number): void
+    {
+        if (!this.isPlaying) return;
+        this.position += delta / 1000 * this.totalRate;
+        if (this.position < this.duration) return;
+        if (this.loop && this.duration > 0)
+        {
+            this.position %= this.duration;
+            this.emit(Phaser.Sound.Events.LOOPED, this);
+            return;
+        }
+        // like WebAudioSound, completing stops without a stop event
+        super.stop();
+        this.position = 0;
+        this.emit(Phaser.Sound.Events.COMPLETE, this);
+    }
+}
+
+/**
+ * A sound manager that creates FakeSounds, to replace Phaser's when there is no audio hardware. Sounds last for
+ * the duration set for their key, or a second.
+ */
+export class FakeSoundManager extends Phaser.Sound.BaseSoundManager
+{
+    public mute = false;
+    public volume = 1;
+    /** Lengths of sounds by key, in seconds. */
+    private durations: Map<string, number>;
+
+    constructor(game: Phaser.Game, durations: {[key: string]: number} = {})
+    {
+        super(game);
+        this.durations = new Map(Object.entries(durations));
+    }
+
+    /** Sets how long sounds with a key last, in seconds. Only affects sounds created afterwards. */
+    public setDuration(key: string, seconds: number): void
+    {
+        this.durations.set(key, seconds);
+    }
+
+    public getDuration(key: string): number
+    {
+        return this.durations.get(key) ?? DEFAULT_DURATION;
+    }
+
+    public add(key: string, config?: Phaser.Types.Sound.SoundConfig): FakeSound
+    {
+        const sound = new FakeSound(this, key, config);
+        (this as unknown as {sounds: Phaser.Sound.BaseSound[]}).sounds.push(sound);
+        return sound;
+    }
+
+    /** Sounds currently playing, to check what a scene is playing. */
+    public get playing(): FakeSound[]
+    {
+        return (this as unknown as {sounds: FakeSound[]}).sounds.filter(sound => sound.isPlaying);
+    }
+}
@@ -0,0 +1,334 @@
+import Phaser from 'phaser';
+import type { BaseGame, BaseGlobalHud, NavigateOptions } from '../game';
+import type { BaseScene } from '../scene';
+import { MemorySink } from '../analytics';
+import { FakeSoundManager } from './FakeSound';
+
+/** Game params the harness provides, to be passed along to the game's constructor. */
+export interface HarnessGameParams
+{
+    type: number;
+    parent: string;
+    uiDiv: string;
+    audioStorage: null;
+    save: null;
+    autoPause: boolean;
+    analytics: MemorySink[];
+}
+
+export interface HarnessOptions
+{
+    /**
+     * What to load for files by url, instead of a placeholder. JSON files need the actual data for anything that
+     * reads it (manifests, atlases, audio sprites). Use null to make a file fail to load.
+     */
+    files?: {[url: string]: unknown};
+    /** Lengths of sounds by key, in seconds. Sounds without one last a second. */
+    soundDurations?: {[key: string]: number};
+    /** Length of each frame when advancing the clock, in milliseconds. Defaults to 60fps. */
+    frameTime?: number;
+    /** Longest that waiting for something (like a scene to start) can take on the clock, in milliseconds. Defaults to 30 seconds. */
+    timeout?: number;
+}
+
+/** Every cache a loaded asset can end up in, to check that it is really gone. */
+const CACHES: (keyof Phaser.Cache.CacheManager)[] = [
+    'json', 'audio', 'text', 'xml', 'bitmapFont', 'tilemap', 'shader', 'video', 'binary',
+];
+
+/** The loader we've patched to fake loading for harnessed games, and its original addFile. */
+let ORIGINAL_ADD_FILE: Phaser.Loader.LoaderPlugin['addFile']|null = null;
+const HARNESSES = new Set<TestHarness<any>>();
+
+/**
+ * Runs a BaseGame without a browser, for testing scenes and navigation in Node. The game runs on Phaser's
+ * headless renderer with fake sounds, every file "loads" instantly (with placeholder content unless given in
+ * `files`) and time only moves when advanced, so tests are fast and repeatable.
+ *
+ * The browser environment must be set up before Phaser is imported - see `testing/register`.
+ *
+ *     const harness = await TestHarness.boot(params => new MyGame({ ...params, width: 1280, height: 720, hudConstructor: MyHud }));
+ *     const scene = await harness.navigateAndWaitForStart('map', { level: 1 });
+ *     await harness.advance(2000);
+ *     await harness.navigateAndWaitForStart('title');
+ *     harness.assertAssetsUnloaded();
+ *     harness.destroy();
+ */
+export class TestHarness<G extends BaseGame<any, any>>
+{
+    public readonly game: G;
+    /** Analytics events the game has sent. */
+    public readonly events: MemorySink;
+    public readonly sound: FakeSoundManager;
+    /** Current time on the clock, in milliseconds. */
+    public now: number;
+    private options: HarnessOptions;
+    /** Assets of the scene before the current one, for assertAssetsUnloaded(). */
+    private previousSceneKeys: string[];
+    private currentSceneKeys: string[];
+
+    private constructor(game: G, events: MemorySink, options: HarnessOptions)
+    {
+        this.game = game;
+        this.events = events;
+        this.options = options;
+        this.now = 0;
+        this.previousSceneKeys = [];
+        this.currentSceneKeys = [];
+        // jsdom has no audio hardware to play with
+        this.sound = new FakeSoundManager(game, options.soundDurations);
+        (game.sound as Phaser.Sound.BaseSoundManager).destroy();
+        (game as {sound: unknown}).sound = this.sound;
+    }
+
+    /**
+     * Creates a game and waits for it to boot and its HUD to load. The game must be created with the params
+     * given to `create`, which run it headless and keep it from saving or pausing itself.
+     */
+    public static async boot<G extends BaseGame<any, any>>(create: (params: HarnessGameParams) => G, options: HarnessOptions = {}): Promise<TestHarness<G>>
+    {
+        const events = new MemorySink();
+        const game = create({
+            type: Phaser.HEADLESS,
+            parent: 'content',
+            uiDiv: 'ui',
+            audioStorage: null,
+            save: null,
+            autoPause: false,
+            analytics: [events],
+        });
+        // scenes are created once the game is ready, so this replaces the sound manager before any use it
+        const harness = new TestHarness(game, events, options);
+        HARNESSES.add(harness);
+        fakeLoading();
+        if (!game.isRunning)
+        {
+            await new Promise(resolve => game.events.once(Phaser.Core.Events.READY, resolve));
+        }
+        // the game started its loop right after it was ready - we'll be doing the stepping from here on
+        game.loop.stop();
+        const hud = (game as unknown as {globalHud: BaseGlobalHud<any>}).globalHud;
+        let hudLoaded = false;
+        hud.loaded.promise.then(() => hudLoaded = true);
+        await harness.waitFor(() => hudLoaded, 'the HUD to load');
+        return harness;
+    }
+
+    /** Moves the clock forward by one frame. */
+    public step(delta = this.frameTime): void
+    {
+        this.now += delta;
+        this.game.headlessStep(this.now, delta);
+    }
+
+    /**
+     * Moves the clock forward, a frame at a time, letting promises and timers settle between frames. Scene
+     * updates, tweens, timers (including BaseScene.wait()) and sounds all advance with it.
+     */
+    public async advance(milliseconds: number): Promise<void>
+    {
+        const end = this.now + milliseconds;
+        while (this.now < end)
+        {
+            this.step(Math.min(this.frameTime, end - this.now));
+            await settle();
+        }
+    }
+
+    /**
+     * Advances the clock until a condition is met, throwing if it takes longer than the timeout.
+     * @param description What is being waited for, for the error.
+     */
+    public async waitFor(condition: () => boolean, description = 'condition', timeout = this.options.timeout ?? 30000): Promise<void>
+    {
+        await settle();
+        const end = this.now + timeout;
+        while (!condition())
+        {
+            if (this.now >= end)
+            {
+                throw new Error(`Timed out waiting for ${description} after ${timeout}ms`);
+            }
+            this.step();
+            await settle();
+        }
+    }
+
+    /**
+     * Runs something that starts a scene (like goToScene() or TestGame.loadTestState()), and waits until the
+     * scene has loaded and started.
+     */
+    public async waitForSceneStart<T extends BaseScene<any, any> = BaseScene<any, any>>(start: () => unknown, description = 'scene to start'): Promise<T>
+    {
+        let sceneStarted = false;
+        const onStarted = () => sceneStarted = true;
+        this.game.lifecycle.once('sceneStarted', onStarted);
+        try
+        {
+            const started = start();
+            await this.waitFor(() => sceneStarted, description);
+            await started;
+        }
+        finally
+        {
+            this.game.lifecycle.off('sceneStarted', onStarted);
+        }
+        this.previousSceneKeys = this.currentSceneKeys;
+        this.currentSceneKeys = this.game.currentScene.mLoad.trackedKeys;
+        return this.game.currentScene as T;
+    }
+
+    /** Goes to a scene with goToScene(), and waits until it has loaded and started. */
+    public navigateAndWaitForStart<T extends BaseScene<any, any> = BaseScene<any, any>>(id: string, args?: unknown, opts?: NavigateOptions): Promise<T>
+    {
+        return this.waitForSceneStart<T>(() => this.game.goToScene(id, args, opts), `scene ${id} to start`);
+    }
+
+    /**
+     * Clicks at a point in the game, in game pixels, as if with the mouse. As in the browser, only scenes that are
+     * running (not paused) and have input enabled get it.
+     */
+    public click(x: number, y: number): void
+    {
+        const input = this.game.input;
+        const pointer = input.activePointer;
+        pointer.position.set(x, y);
+        // pressed on the game itself, rather than on something over it
+        (pointer as {downElement: unknown}).downElement = this.game.canvas;
+        pointer.isDown = true;
+        pointer.buttons = 1;
+        input.updateInputPlugins(Phaser.Input.MOUSE_DOWN, [pointer]);
+        pointer.isDown = false;
+        pointer.buttons = 0;
+        input.updateInputPlugins(Phaser.Input.MOUSE_UP, [pointer]);
+    }
+
+    /** If an asset is loaded, or still referenced by something. */
+    public isLoaded(key: string): boolean
+    {
+        const game = this.game;
+        return game.assets.getRefCount(key) > 0 ||
+            game.textures.exists(key) ||
+            CACHES.some(cache => (game.cache[cache] as Phaser.Cache.BaseCache).has(key)) ||
+            !!game.sound.get(key);
+    }
+
+    /**
+     * Throws if any of the assets are still loaded. Defaults to the assets of the previous scene that the
+     * current scene isn't also using, to check that a scene cleaned up after itself.
+     */
+    public assertAssetsUnloaded(keys?: string[]): void
+    {
+        if (!keys)
+        {
+            const inUse = new Set(this.currentSceneKeys);
+            keys = this.previousSceneKeys.filter(key => !inUse.has(key));
+        }
+        const loaded = keys.filter(key => this.isLoaded(key));
+        if (loaded.length)
+        {
+            throw new Error(`Assets are still loaded: ${loaded.join(', ')}`);
+        }
+    }
+
+    /** What a file loads as, or null if it should fail. */
+    public fileContent(file: Phaser.Loader.File): unknown
+    {
+        const url = typeof file.url == 'string' ? file.url : '';
+        const files = this.options.files;
+        if (files && url in files)
+        {
+            return files[url];
+        }
+        switch (file.type)
+        {
+            case 'image':
+            case 'svg':
+            case 'spritesheet':
+            {
+                const canvas = document.createElement('canvas');
+                canvas.width = canvas.height = 1;
+                return canvas;
+            }
+            case 'json':
+                // files making up atlases and audio sprites are expected to have these
+                return file.multiFile ? { frames: {}, spritemap: {} } : {};
+            case 'text':
+            case 'glsl':
+                return '';
+            case 'xml':
+                return new DOMParser().parseFromString('<xml/>', 'text/xml');
+            case 'video':
+                return document.createElement('video');
+            default:
+                return {};
+        }
+    }
+
+    /** Destroys the game. */
+    public destroy(): void
+    {
+        this.game.destroy(true);
+        // the game is destroyed on its next step
+        this.step();
+        HARNESSES.delete(this);
+        if (!HARNESSES.size)
+        {
+            restoreLoading();
+        }
+    }
+
+    private get frameTime(): number
+    {
+        return this.options.frameTime ?? 1000 / 60;
+    }
+}
+
+/** Lets pending promises and timers run. */
+function settle(): Promise<void>
+{
+    return new Promise(resolve => setTimeout(resolve, 1));
+}
+
+/** Makes files added to the loaders of harnessed games load instantly, with fake content. */
+function fakeLoading(): void
+{
+    if (ORIGINAL_ADD_FILE) return;
+    const addFile = ORIGINAL_ADD_FILE = Phaser.Loader.LoaderPlugin.prototype.addFile;
+    Phaser.Loader.LoaderPlugin.prototype.addFile = function(this: Phaser.Loader.LoaderPlugin, file: Phaser.Loader.File|Phaser.Loader.File[])
+    {
+        const harness = Array.from(HARNESSES).find(h => h.game === this.systems.game);
+        if (harness)
+        {
+            for (const f of Array.isArray(file) ? file : [file])
+            {
+                fakeFile(f, harness);
+            }
+        }
+        addFile.call(this, file);
+    };
+}
+
+function fakeFile(file: Phaser.Loader.File, harness: TestHarness<any>): void
+{
+    file.load = () =>
+    {
+        const content = harness.fileContent(file);
+        if (content === null)
+        {
+            file.loader.nextFile(file, false);
+            return;
+        }
+        file.data = content;
+        // the content is ready to go, rather than needing to be processed from a response
+        file.onProcess = () => file.onProcessComplete();
+        file.loader.nextFile(file, true);
+    };
+}
+
+function restoreLoading(): void
+{
+    if (!ORIGINAL_ADD_FILE) return;
+    Phaser.Loader.LoaderPlugin.prototype.addFile = ORIGINAL_ADD_FILE;
+    ORIGINAL_ADD_FILE = null;
+}
@@ -0,0 +1,118 @@
+import { JSDOM } from 'jsdom';
+import { createRequire } from 'module';
+
+export interface DomOptions
+{
+    /** Url of the page, which relative urls are resolved against. Defaults to http://localhost/. */
+    url?: string;
+    /** Size of the window, for BaseGame.resize(). Defaults to 1280x720. */
+    width?: number;
+    height?: number;
+}
+
+/** Browser globals that Phaser, the interaction library and the game expect, copied from the jsdom window. */
+const GLOBALS = [
+    'window', 'document', 'navigator', 'location', 'screen', 'localStorage', 'sessionStorage',
+    'Image', 'Audio', 'Element', 'HTMLElement', 'HTMLCanvasElement', 'HTMLImageElement', 'HTMLVideoElement',
+    'HTMLDivElement', 'Node', 'KeyboardEvent', 'MouseEvent', 'FocusEvent', 'XMLHttpRequest', 'DOMParser',
+    'getComputedStyle', 'requestAnimationFrame', 'cancelAnimationFrame',
+];
+
+/**
+ * Sets up a jsdom document as the global browser environment, with `content` and `ui` divs for BaseGame.
+ * This must happen before Phaser is imported, as Phaser checks the browser's features as soon as it loads -
+ * import `testing/register` first thing (or in the test runner's setup files) to do this with the defaults.
+ * If the `canvas` package isn't installed (or can't load, like without cairo), canvases get a do-nothing 2D context
+ * and images "load" right away with no size, which is all Phaser's headless renderer needs.
+ */
+export function installDom(options: DomOptions = {}): JSDOM
+{
+    const dom = new JSDOM('<!DOCTYPE html><html><body><div id="content"><div id="ui"></div></div></body></html>', {
+        url: options.url ?? 'http://localhost/',
+        // gives us requestAnimationFrame, and a visible document
+        pretendToBeVisual: true,
+        // so that Phaser's built in textures (data uri images) load
+        resources: 'usable',
+    });
+    const win = dom.window as any;
+    const width = options.width ?? 1280;
+    const height = options.height ?? 720;
+    // jsdom doesn't do layout, so the window has no size unless we give it one
+    Object.defineProperty(win.document.documentElement, 'clientWidth', { configurable: true, get: () => width });
+    Object.defineProperty(win.document.documentElement, 'clientHeight', { configurable: true, get: () => height });
+    win.innerWidth = width;
+    win.innerHeight = height;
+    // Phaser focuses the window when it starts, which jsdom doesn't implement
+    win.focus = () => undefined;
+    if (!hasCanvasPackage())
+    {
+        fakeCanvas(win);
+    }
+    const g = globalThis as any;
+    for (const name of GLOBALS)
+    {
+        // leave anything Node already has (like navigator in newer versions) alone, except for the document itself
+        if (g[name] === undefined || name == 'window' || name == 'document')
+        {
+            g[name] = typeof win[name] == 'function' && name[0] == name[0].toLowerCase() ? win[name].bind(win) : win[name];
+        }
+    }
+    return dom;
+}
+
+
+/** If jsdom can draw to canvases and load images, which it needs the `canvas` package for. */
+function hasCanvasPackage(): boolean
+{
+    try
+    {
+        // it can be installed but unusable, if its native parts weren't built
+        createRequire(import.meta.url)('canvas');
+        return true;
+    }
+    catch (e)
+    {
+        return false;
+    }
+}
+
+/** Stands in for what the `canvas` package would give jsdom, enough for Phaser to boot headless. */
+function fakeCanvas(win: any): void
+{
+    win.HTMLCanvasElement.prototype.getContext = function(this: HTMLCanvasElement, type: string)
+    {
+        return type == '2d' ? fakeContext(this) : null;
+    };
+    win.HTMLCanvasElement.prototype.toDataURL = () => 'data:,';
+    // Phaser waits for its built in textures to load before it boots
+    const src = Object.getOwnPropertyDescriptor(win.HTMLImageElement.prototype, 'src')!;
+    Object.defineProperty(win.HTMLImageElement.prototype, 'src', {
+        configurable: true,
+        get: src.get,
+        set(this: HTMLImageElement, value: string)
+        {
+            src.set!.call(this, value);
+            setTimeout(() => this.dispatchEvent(new win.Event('load')));
+        },
+    });
+}
+
+/** A 2D context that draws nothing - any method that isn't needed to return something does nothing. */
+function fakeContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D
+{
+    const imageData = (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) });
+    const context: any = {
+        canvas,
+        getImageData: (_x: number, _y: number, width: number, height: number) => imageData(width, height),
+        createImageData: (width: number, height: number) => imageData(width, height),
+        measureText: () => ({ width: 0, actualBoundingBoxAscent: 0, actualBoundingBoxDescent: 0 }),
+        createLinearGradient: () => ({ addColorStop: () => undefined }),
+        createRadialGradient: () => ({ addColorStop: () => undefined }),
+        createPattern: () => ({}),
+        isPointInPath: () => false,
+        getLineDash: () => [],
+    };
+    return new Proxy(context, {
+        get: (target, name) => name in target ? target[name] : () => undefined,
+    });
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export * from './TestHarness';
+export * from './FakeSound';
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { installDom } from './dom';
+
+// set up the browser environment with the defaults, before anything imports Phaser
+installDom();
\ No newline at end of file
@@ -0,0 +1,81 @@
+// the sink watches the window for coming back online
+import '../src/testing/register';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AnalyticsEvent, HttpSink } from '../src/analytics';
+
+/** Stands in for the analytics endpoint, answering with the next status queued up (200 after that). */
+class StubEndpoint
+{
+    public requests: {events: AnalyticsEvent[], init: RequestInit}[] = [];
+    public statuses: number[] = [];
+
+    public fetch = (_url: RequestInfo|URL, init?: RequestInit): Promise<Response> =>
+    {
+        this.requests.push({ events: JSON.parse(init!.body as string).events, init: init! });
+        const status = this.statuses.shift() ?? 200;
+        return Promise.resolve({ ok: status < 400, status } as Response);
+    };
+}
+
+function sceneEntered(sceneId: string): AnalyticsEvent
+{
+    return { type: 'sceneEntered', time: 0, data: { sceneId, args: {} } };
+}
+
+describe('HttpSink', () =>
+{
+    let endpoint: StubEndpoint;
+    let sink: HttpSink;
+
+    beforeEach(() =>
+    {
+        endpoint = new StubEndpoint();
+        sink = new HttpSink({ url: 'https://example.com/events', batchSize: 2, flushInterval: 60000, fetch: endpoint.fetch as typeof fetch });
+    });
+
+    afterEach(() =>
+    {
+        sink.destroy();
+    });
+
+    it('sends events in batches', async () =>
+    {
+        sink.send(sceneEntered('title'));
+        expect(endpoint.requests).toHaveLength(0);
+        sink.send(sceneEntered('map'));
+        sink.send(sceneEntered('level'));
+        await sink.flush();
+
+        expect(endpoint.requests.map(request => request.events.map(e => (e.data as {sceneId: string}).sceneId))).toEqual([
+            ['title', 'map'],
+            ['level'],
+        ]);
+        expect(endpoint.requests[0].init.method).toBe('POST');
+        expect(sink.pending).toBe(0);
+    });
+
+    it('keeps a batch that failed, and sends it with the next flush', async () =>
+    {
+        endpoint.statuses = [503];
+        sink.send(sceneEntered('title'));
+        await sink.flush();
+        expect(endpoint.requests).toHaveLength(1);
+        expect(sink.pending).toBe(1);
+
+        await sink.flush();
+        expect(endpoint.requests).toHaveLength(2);
+        expect(endpoint.requests[1].events).toEqual(endpoint.requests[0].events);
+        expect(sink.pending).toBe(0);
+    });
+
+    it('keeps requests alive when flushing as the page goes away', async () =>
+    {
+        sink.send(sceneEntered('title'));
+        await sink.flush(true);
+        expect(endpoint.requests[0].init.keepalive).toBe(true);
+
+        sink.send(sceneEntered('map'));
+        await sink.flush();
+        expect(endpoint.requests[1].init.keepalive).toBe(false);
+    });
+});
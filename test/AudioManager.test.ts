@@ -0,0 +1,56 @@
+// the browser environment has to be set up before anything imports Phaser
+import '../src/testing/register';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Sound } from '../src/audio';
+import { TestHarness } from '../src/testing';
+import { bootFixtureGame, FixtureGame } from './fixtures';
+
+describe('AudioManager', () =>
+{
+    let harness: TestHarness<FixtureGame>;
+
+    beforeEach(async () =>
+    {
+        harness = await bootFixtureGame({ soundDurations: { line: 2 } });
+    });
+
+    afterEach(() =>
+    {
+        harness.destroy();
+    });
+
+    it('resolves a VO clip when it completes', async () =>
+    {
+        let finished = false;
+        harness.game.audioManager.playSingleVOClip(harness.sound.add('line') as unknown as Sound).then(() => finished = true);
+        await harness.advance(1000);
+        expect(finished).toBe(false);
+        await harness.advance(1100);
+        expect(finished).toBe(true);
+    });
+
+    it('resolves a single VO clip when it is stopped', async () =>
+    {
+        const clip = harness.sound.add('line');
+        let finished = false;
+        harness.game.audioManager.playSingleVOClip(clip as unknown as Sound).then(() => finished = true);
+        await harness.advance(500);
+        expect(finished).toBe(false);
+
+        harness.game.audioManager.stopAllVOClips();
+        await harness.waitFor(() => finished, 'the VO to resolve', 100);
+        expect(clip.isPlaying).toBe(false);
+    });
+
+    it('resolves a list of VO clips when they are stopped', async () =>
+    {
+        const clips = [harness.sound.add('line'), harness.sound.add('line')];
+        let finished = false;
+        harness.game.audioManager.playVOClips(clips as unknown as Sound[]).then(() => finished = true);
+        await harness.advance(500);
+
+        harness.game.audioManager.stopAllVOClips();
+        await harness.waitFor(() => finished, 'the VO to resolve', 100);
+        expect(clips.some(clip => clip.isPlaying)).toBe(false);
+    });
+});
@@ -0,0 +1,38 @@
+// the browser environment has to be set up before anything imports Phaser
+import '../src/testing/register';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from '../src/testing';
+import { bootFixtureGame, FixtureGame, FixtureScene } from './fixtures';
+
+describe('BaseGame', () =>
+{
+    let harness: TestHarness<FixtureGame>;
+
+    beforeEach(async () =>
+    {
+        harness = await bootFixtureGame();
+    });
+
+    afterEach(() =>
+    {
+        harness.destroy();
+    });
+
+    it('ignores clicks on the scene while paused', async () =>
+    {
+        const scene = await harness.navigateAndWaitForStart<FixtureScene>('title');
+        let clicks = 0;
+        scene.add.rectangle(100, 100, 50, 50).setInteractive().on('pointerdown', () => ++clicks);
+        harness.click(100, 100);
+        expect(clicks).toBe(1);
+
+        harness.game.pause();
+        harness.click(100, 100);
+        await harness.advance(100);
+        expect(clicks).toBe(1);
+
+        harness.game.resume();
+        harness.click(100, 100);
+        expect(clicks).toBe(2);
+    });
+});
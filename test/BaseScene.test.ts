@@ -0,0 +1,45 @@
+// the browser environment has to be set up before anything imports Phaser
+import '../src/testing/register';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from '../src/testing';
+import { bootFixtureGame, FixtureGame, FixtureScene } from './fixtures';
+
+describe('BaseScene', () =>
+{
+    let harness: TestHarness<FixtureGame>;
+    let scene: FixtureScene;
+
+    beforeEach(async () =>
+    {
+        harness = await bootFixtureGame();
+        scene = await harness.navigateAndWaitForStart<FixtureScene>('title');
+    });
+
+    afterEach(() =>
+    {
+        harness.destroy();
+    });
+
+    it('plays sfx that are loaded', async () =>
+    {
+        const click = harness.sound.add('click');
+        scene.playSfx('click');
+        await harness.advance(100);
+        expect(click.isPlaying).toBe(true);
+    });
+
+    it('plays each clip of a list of dialogue in turn', async () =>
+    {
+        const clips = [harness.sound.add('one'), harness.sound.add('two')];
+        let finished = false;
+        scene.doDialogue(['one', 'two']).then(() => finished = true);
+        await harness.advance(500);
+        expect(clips[0].isPlaying).toBe(true);
+        expect(clips[1].isPlaying).toBe(false);
+
+        await harness.advance(1000);
+        expect(clips[0].isPlaying).toBe(false);
+        expect(clips[1].isPlaying).toBe(true);
+        await harness.waitFor(() => finished, 'the dialogue to finish', 1000);
+    });
+});
@@ -0,0 +1,22 @@
+// the browser environment has to be set up before anything imports Phaser
+import '../src/testing/register';
+import { describe, expect, it } from 'vitest';
+import { computeLayout } from '../src/game/Layout';
+
+describe('computeLayout', () =>
+{
+    it('keeps an off-center safe area on screen when covering', () =>
+    {
+        const safeArea = { x: 800, y: 100, width: 400, height: 500 };
+        // half as wide as the design size, so a centered view would only show x 320 to 960
+        const layout = computeLayout({ mode: 'cover', safeArea }, 1280, 720, 640, 720);
+        const { visible } = layout;
+        expect(visible.x).toBeLessThanOrEqual(safeArea.x);
+        expect(visible.x + visible.width).toBeGreaterThanOrEqual(safeArea.x + safeArea.width);
+        expect(visible.y).toBeLessThanOrEqual(safeArea.y);
+        expect(visible.y + visible.height).toBeGreaterThanOrEqual(safeArea.y + safeArea.height);
+        // and never past the edges of the game
+        expect(visible.x + visible.width).toBeLessThanOrEqual(1280);
+        expect(visible.y).toBeGreaterThanOrEqual(0);
+    });
+});
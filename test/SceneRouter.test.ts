@@ -0,0 +1,55 @@
+// the routers work with the page's location
+import '../src/testing/register';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { QueryRouter, stringArgsSerializer, typedArgsSerializer } from '../src/game/SceneRouter';
+
+interface Args
+{
+    level?: number;
+}
+
+describe('QueryRouter', () =>
+{
+    beforeEach(() =>
+    {
+        window.history.replaceState(null, '', '/index.html?lang=fr&utm_source=x');
+    });
+
+    function navigate<A>(router: QueryRouter<A>, id: string, args: A): void
+    {
+        window.history.pushState(null, '', router.toUrl(id, args));
+    }
+
+    it('keeps query parameters that aren\'t args across navigations', () =>
+    {
+        const router = new QueryRouter<Args>({ serializer: typedArgsSerializer<Args>({ level: 'number' }) });
+        expect(router.fromUrl(window.location)).toBeNull();
+
+        navigate(router, 'map', { level: 2 });
+        expect(router.fromUrl(window.location)).toEqual({ id: 'map', args: { level: 2 } });
+
+        navigate(router, 'title', {});
+        expect(router.fromUrl(window.location)).toEqual({ id: 'title', args: {} });
+        const params = new URLSearchParams(window.location.search);
+        expect(params.get('lang')).toBe('fr');
+        expect(params.get('utm_source')).toBe('x');
+        expect(params.has('level')).toBe(false);
+    });
+
+    it('only reads the serializer\'s keys as args from a deep link', () =>
+    {
+        window.history.replaceState(null, '', '/index.html?lang=fr&scene=map&level=3&utm_source=x');
+        const router = new QueryRouter<Args>({ serializer: stringArgsSerializer(['level']) });
+        expect(router.fromUrl(window.location)).toEqual({ id: 'map', args: { level: '3' } });
+
+        navigate(router, 'title', {});
+        expect(window.location.search).toBe('?lang=fr&scene=title&utm_source=x');
+    });
+
+    it('leaves out args named like the scene parameter', () =>
+    {
+        const router = new QueryRouter<any>({ serializer: stringArgsSerializer(['scene', 'level']) });
+        navigate(router, 'map', { scene: 'other', level: 1 });
+        expect(router.fromUrl(window.location)).toEqual({ id: 'map', args: { level: '1' } });
+    });
+});
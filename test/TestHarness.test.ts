@@ -0,0 +1,99 @@
+// the browser environment has to be set up before anything imports Phaser
+import '../src/testing/register';
+import Phaser from 'phaser';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from '../src/testing';
+import { bootFixtureGame, FixtureGame, FixtureScene } from './fixtures';
+
+describe('TestHarness', () =>
+{
+    let harness: TestHarness<FixtureGame>;
+
+    beforeEach(async () =>
+    {
+        harness = await bootFixtureGame({
+            files: {
+                'levels.json': { count: 3 },
+                'missing.png': null,
+                'remote.json': { groups: { main: [{ type: 'image', key: 'remoteBackground', url: 'remote.png' }] } },
+                'lost.json': null,
+            },
+        });
+    });
+
+    afterEach(() =>
+    {
+        harness.destroy();
+    });
+
+    it('navigates between scenes', async () =>
+    {
+        const title = await harness.navigateAndWaitForStart<FixtureScene>('title');
+        expect(title.started).toBe(true);
+        expect(harness.game.currentEntry?.id).toBe('title');
+
+        const map = await harness.navigateAndWaitForStart<FixtureScene>('map', { level: 2 });
+        expect(map.started).toBe(true);
+        expect(harness.game.currentScene).toBe(map);
+        expect(harness.game.currentEntry).toMatchObject({ id: 'map', args: { level: 2 } });
+        expect(harness.game.cache.json.get('levels')).toEqual({ count: 3 });
+        expect(harness.events.ofType('sceneEntered').map(event => event.data.sceneId)).toEqual(['title', 'map']);
+    });
+
+    it('unloads the previous scene\'s assets', async () =>
+    {
+        await harness.navigateAndWaitForStart('title');
+        expect(harness.isLoaded('titleBackground')).toBe(true);
+        const added: string[] = [];
+        const removed: string[] = [];
+        harness.game.textures.on(Phaser.Textures.Events.ADD, (key: string) => added.push(key));
+        harness.game.textures.on(Phaser.Textures.Events.REMOVE, (key: string) => removed.push(key));
+
+        await harness.navigateAndWaitForStart('map');
+        harness.assertAssetsUnloaded();
+        expect(harness.isLoaded('titleBackground')).toBe(false);
+        expect(removed).toContain('titleBackground');
+        // shared between the scenes, so it should have been kept loaded the whole time
+        expect(harness.isLoaded('logo')).toBe(true);
+        expect(removed).not.toContain('logo');
+        expect(added).not.toContain('logo');
+        expect(() => harness.assertAssetsUnloaded(['logo'])).toThrow(/logo/);
+    });
+
+    it('reports files that fail to load, and starts the scene anyway', async () =>
+    {
+        const scene = await harness.navigateAndWaitForStart<FixtureScene>('broken');
+        expect(scene.started).toBe(true);
+        expect(harness.game.hud.loadErrors).toHaveLength(1);
+        expect(harness.game.hud.loadErrors[0].failed.map(failure => failure.key)).toEqual(['missing']);
+        expect(harness.isLoaded('missing')).toBe(false);
+        expect(harness.isLoaded('brokenBackground')).toBe(true);
+    });
+
+    it('loads manifests by url', async () =>
+    {
+        const scene = await harness.navigateAndWaitForStart<FixtureScene>('remote');
+        expect(scene.started).toBe(true);
+        expect(harness.isLoaded('remoteBackground')).toBe(true);
+        expect(scene.mLoad.trackedKeys).toContain('remote.json');
+    });
+
+    it('reports manifests that fail to load, and starts the scene anyway', async () =>
+    {
+        const scene = await harness.navigateAndWaitForStart<FixtureScene>('lost');
+        expect(scene.started).toBe(true);
+        expect(harness.game.hud.loadErrors).toHaveLength(1);
+        expect(harness.game.hud.loadErrors[0].failed.map(failure => failure.key)).toEqual(['lost.json']);
+    });
+
+    it('only moves time when advanced', async () =>
+    {
+        const scene = await harness.navigateAndWaitForStart('title');
+        let waited = false;
+        scene.wait(500).then(() => waited = true);
+        await harness.advance(400);
+        expect(waited).toBe(false);
+        await harness.advance(200);
+        expect(waited).toBe(true);
+    });
+});
@@ -0,0 +1,90 @@
+import { BaseGame, BaseGlobalHud, SceneConstructor } from '../src/game';
+import { AssetManifest, BaseScene, LoadReport } from '../src/scene';
+import { HarnessOptions, TestHarness } from '../src/testing';
+
+export interface FixtureConfig
+{
+    manifest?: string|AssetManifest;
+}
+
+export class FixtureScene extends BaseScene<FixtureConfig, any>
+{
+    public started = false;
+
+    public start(): void
+    {
+        this.started = true;
+    }
+}
+
+export class FixtureHud extends BaseGlobalHud<boolean>
+{
+    /** Reports of every load error shown. */
+    public loadErrors: LoadReport[] = [];
+
+    public showLoadError(report: LoadReport): Promise<boolean>
+    {
+        this.loadErrors.push(report);
+        return Promise.resolve(false);
+    }
+}
+
+/** Static configs of the fixture game's scenes, by id. */
+export const SCENES: {[id: string]: FixtureConfig} = {
+    title: {
+        manifest: { groups: { main: [
+            { type: 'image', key: 'titleBackground', url: 'title.png' },
+            { type: 'image', key: 'logo', url: 'logo.png' },
+        ] } },
+    },
+    map: {
+        manifest: { groups: { main: [
+            { type: 'image', key: 'mapBackground', url: 'map.png' },
+            { type: 'image', key: 'logo', url: 'logo.png' },
+            { type: 'json', key: 'levels', url: 'levels.json' },
+        ] } },
+    },
+    broken: {
+        manifest: { groups: { main: [
+            { type: 'image', key: 'brokenBackground', url: 'broken.png' },
+            { type: 'image', key: 'missing', url: 'missing.png' },
+        ] } },
+    },
+    remote: { manifest: 'remote.json' },
+    lost: { manifest: 'lost.json' },
+};
+
+export class FixtureGame extends BaseGame<FixtureConfig, any>
+{
+    public get hud(): FixtureHud
+    {
+        return this.globalHud as FixtureHud;
+    }
+
+    protected getStaticConfig(id: string): FixtureConfig
+    {
+        return SCENES[id];
+    }
+
+    protected getSceneConstructor(_id: string): Promise<SceneConstructor<FixtureConfig, any>>
+    {
+        return Promise.resolve(FixtureScene);
+    }
+
+    public getSceneIds(): string[]
+    {
+        return Object.keys(SCENES);
+    }
+}
+
+/** Boots the fixture game in a harness, without load retries so that failures are reported right away. */
+export function bootFixtureGame(options?: HarnessOptions): Promise<TestHarness<FixtureGame>>
+{
+    return TestHarness.boot(params => new FixtureGame({
+        ...params,
+        width: 1280,
+        height: 720,
+        hudConstructor: FixtureHud,
+        loadOptions: { retries: 0 },
+    }), options);
+}